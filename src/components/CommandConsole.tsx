@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { Keyboard } from 'lucide-react';
+import {
+  CommandDialog,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { DialogTitle } from '@/components/ui/dialog';
+import IntentRegistry from '@/services/IntentRegistry';
+import ConversationHistoryService from '@/services/ConversationHistoryService';
+import VoiceCommandService from '@/services/VoiceCommandService';
+
+interface CommandConsoleProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const intentRegistry = IntentRegistry.getInstance();
+const historyService = ConversationHistoryService.getInstance();
+const voiceCommands = VoiceCommandService.getInstance();
+
+// Saying the wake phrase has no meaning when typing
+const HIDDEN_INTENTS = new Set(['wake']);
+
+const CommandConsole = ({ open, onOpenChange }: CommandConsoleProps) => {
+  const [input, setInput] = useState('');
+
+  // Read on every render so custom commands saved in Settings show up too
+  const suggestions = intentRegistry.getDefinitions()
+    .filter(definition => !HIDDEN_INTENTS.has(definition.name))
+    .flatMap(definition => definition.examples.map(example => ({ example, description: definition.description })))
+    .filter((suggestion, index, all) => all.findIndex(other => other.example === suggestion.example) === index);
+
+  const runCommand = (command: string) => {
+    const text = command.trim();
+    if (!text) {
+      return;
+    }
+    setInput('');
+    onOpenChange(false);
+    // Same path as a spoken command once it has been recognized
+    historyService.addUserCommand(text);
+    voiceCommands.execute(text);
+  };
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange}>
+      <DialogTitle className="sr-only">Type a command</DialogTitle>
+      <CommandInput
+        value={input}
+        onValueChange={setInput}
+        placeholder="Type any voice command, e.g. what's the weather"
+        aria-label="Type a command"
+      />
+      <CommandList>
+        {/* Whatever was typed can always be run, even when no suggestion matches */}
+        {input.trim() && (
+          <CommandGroup heading="Run">
+            <CommandItem value={`run ${input}`} onSelect={() => runCommand(input)} forceMount>
+              <Keyboard className="mr-2" />
+              <span>{input.trim()}</span>
+            </CommandItem>
+          </CommandGroup>
+        )}
+        <CommandGroup heading="Commands you can use">
+          {suggestions.map(({ example, description }) => (
+            <CommandItem key={example} value={example} onSelect={() => runCommand(example)}>
+              <span>{example}</span>
+              <span className="ml-auto pl-4 text-xs text-muted-foreground">{description}</span>
+            </CommandItem>
+          ))}
+        </CommandGroup>
+      </CommandList>
+    </CommandDialog>
+  );
+};
+
+export default CommandConsole;
@@ -1,17 +1,27 @@
 
-import React, { useState } from 'react';
-import { FileText, Headphones, BarChart3, Lightbulb } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { FileText, Headphones, BarChart3, Lightbulb, Mic, MicOff } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { SpeechOptions } from '@/services/SpeechOutputService';
+import { useModeActions } from '@/hooks/use-assist-mode';
+import { useDictation } from '@/hooks/use-dictation';
+import SegmentedReaderService, { splitIntoParagraphs, splitIntoSentences } from '@/services/SegmentedReaderService';
+import DictationService from '@/services/DictationService';
+
+const readerService = SegmentedReaderService.getInstance();
+const dictationService = DictationService.getInstance();
 
 interface ContentAnalyzerProps {
-  onSpeech: (text: string) => void;
+  onSpeech: (text: string, options?: SpeechOptions) => void;
 }
 
 const ContentAnalyzer = ({ onSpeech }: ContentAnalyzerProps) => {
-  const [content, setContent] = useState('');
+  // The text lives in the dictation service so spoken and typed edits share it
+  const dictation = useDictation();
+  const content = dictation.text;
   const [analysis, setAnalysis] = useState<{
     summary: string;
     keyPoints: string[];
@@ -25,7 +35,7 @@ const ContentAnalyzer = ({ onSpeech }: ContentAnalyzerProps) => {
       return;
     }
 
-    onSpeech('Analyzing your content. I will provide a summary, key points, and readability assessment.');
+    onSpeech('Analyzing your content. I will provide a summary, key points, and readability assessment.', { priority: 'progress' });
 
     // Simulate content analysis
     const wordCount = content.trim().split(/\s+/).length;
@@ -54,7 +64,13 @@ const ContentAnalyzer = ({ onSpeech }: ContentAnalyzerProps) => {
       onSpeech('No content to read. Please enter some text first.');
       return;
     }
-    onSpeech(`Reading full content: ${content}`);
+    // Multi-paragraph text is easier to navigate by paragraph than by sentence
+    const paragraphs = splitIntoParagraphs(content);
+    if (paragraphs.length > 1) {
+      readerService.load('Full content', paragraphs, 'paragraph');
+    } else {
+      readerService.load('Full content', splitIntoSentences(content), 'sentence');
+    }
   };
 
   const readSummary = () => {
@@ -70,10 +86,45 @@ const ContentAnalyzer = ({ onSpeech }: ContentAnalyzerProps) => {
       onSpeech('Please analyze the content first to identify key points.');
       return;
     }
-    const pointsText = analysis.keyPoints.map((point, index) => `Point ${index + 1}: ${point}`).join('. ');
-    onSpeech(`Key points: ${pointsText}`);
+    const points = analysis.keyPoints.map((point, index) => `Point ${index + 1}: ${point}.`);
+    points[0] = `Key points: ${points[0]}`;
+    readerService.load('Key points', points, 'item');
+  };
+
+  const startDictation = async () => {
+    try {
+      if (!await dictationService.start(onSpeech)) {
+        onSpeech('Dictation needs voice recognition, which is not available right now.');
+      }
+    } catch (error) {
+      console.error('Dictation start error:', error);
+      dictationService.stop(false);
+      onSpeech('I could not start dictation. Please check your microphone permissions and try again.');
+    }
   };
 
+  const toggleDictation = async () => {
+    if (dictation.active) {
+      dictationService.stop();
+    } else {
+      await startDictation();
+    }
+  };
+
+  // Leaving text mode ends dictation, so later speech is treated as commands again
+  useEffect(() => () => dictationService.stop(false), []);
+
+  // "Analyze this text", "read the text aloud" and "start dictation" from any mode land here
+  useModeActions('text', (action) => {
+    if (action.type === 'analyze') {
+      analyzeContent();
+    } else if (action.type === 'dictate') {
+      startDictation();
+    } else {
+      readFullContent();
+    }
+  });
+
   return (
     <div className="space-y-6">
       <div className="text-center">
@@ -93,13 +144,21 @@ const ContentAnalyzer = ({ onSpeech }: ContentAnalyzerProps) => {
         </CardHeader>
         <CardContent>
           <Textarea
-            placeholder="Paste your text content here for analysis..."
-            value={content}
-            onChange={(e) => setContent(e.target.value)}
+            placeholder="Paste your text content here for analysis, or dictate it..."
+            value={dictation.interim ? `${content}${content ? ' ' : ''}${dictation.interim}` : content}
+            onChange={(e) => dictationService.setText(e.target.value)}
+            // Words still being recognized are shown but cannot be edited until they settle
+            readOnly={Boolean(dictation.interim)}
             className="min-h-32 bg-slate-800 border-cyan-500/50 text-white placeholder-slate-400 focus:border-cyan-400 resize-none"
             aria-label="Content input area"
           />
-          
+
+          {dictation.active && (
+            <p className="text-sm text-cyan-300 mt-2">
+              Dictating. Say "comma", "period" or "new paragraph" for punctuation, "delete last word" or "undo" to correct, "read back" to hear the last sentence, and "stop dictation" when you are done.
+            </p>
+          )}
+
           <div className="flex space-x-2 mt-4">
             <Button
               onClick={analyzeContent}
@@ -119,6 +178,19 @@ const ContentAnalyzer = ({ onSpeech }: ContentAnalyzerProps) => {
               <Headphones className="w-4 h-4 mr-2" />
               Read Aloud
             </Button>
+
+            <Button
+              onClick={toggleDictation}
+              variant="outline"
+              className={dictation.active
+                ? 'border-red-500/50 text-red-300 hover:bg-red-600 hover:text-white'
+                : 'border-cyan-500/50 text-cyan-300 hover:bg-cyan-600 hover:text-white'}
+              aria-label={dictation.active ? 'Stop dictation' : 'Start dictation'}
+              aria-pressed={dictation.active}
+            >
+              {dictation.active ? <MicOff className="w-4 h-4 mr-2" /> : <Mic className="w-4 h-4 mr-2" />}
+              {dictation.active ? 'Stop Dictation' : 'Dictate'}
+            </Button>
           </div>
         </CardContent>
       </Card>
@@ -252,6 +324,7 @@ const ContentAnalyzer = ({ onSpeech }: ContentAnalyzerProps) => {
             <li>• Reading time estimation</li>
             <li>• Complexity and readability assessment</li>
             <li>• Full content audio reading</li>
+            <li>• Voice dictation with spoken punctuation and corrections</li>
             <li>• Structured information presentation</li>
           </ul>
         </CardContent>
@@ -0,0 +1,139 @@
+import React, { useState, useRef } from 'react';
+import { History, Trash2, User, Volume2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from '@/components/ui/sidebar';
+import { useConversationHistory } from '@/hooks/use-conversation-history';
+import ConversationHistoryService, { HistoryEntry } from '@/services/ConversationHistoryService';
+import { SpeechOptions } from '@/services/SpeechOutputService';
+
+interface ConversationHistoryProps {
+  onReplay: (text: string) => void;
+  onSpeech: (text: string, options?: SpeechOptions) => void;
+}
+
+const historyService = ConversationHistoryService.getInstance();
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+const ConversationHistory = ({ onReplay, onSpeech }: ConversationHistoryProps) => {
+  const entries = useConversationHistory();
+  const [filter, setFilter] = useState('');
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const visibleEntries = filter.trim() ? historyService.search(filter) : entries;
+
+  const replayEntry = (entry: HistoryEntry) => {
+    const prefix = entry.role === 'user' ? 'You said: ' : '';
+    onReplay(`${prefix}${entry.text}`);
+  };
+
+  const clearHistory = () => {
+    onSpeech('Conversation history cleared.', { interrupt: true });
+    historyService.clear();
+    setFilter('');
+  };
+
+  // Arrow keys move between entries so the list is a single tab stop
+  const handleListKeyDown = (e: React.KeyboardEvent<HTMLUListElement>) => {
+    const buttons = Array.from(listRef.current?.querySelectorAll<HTMLButtonElement>('[data-history-entry]') ?? []);
+    const currentIndex = buttons.indexOf(document.activeElement as HTMLButtonElement);
+    let nextIndex: number | null = null;
+
+    if (e.key === 'ArrowDown') {
+      nextIndex = Math.min(currentIndex + 1, buttons.length - 1);
+    } else if (e.key === 'ArrowUp') {
+      nextIndex = Math.max(currentIndex - 1, 0);
+    } else if (e.key === 'Home') {
+      nextIndex = 0;
+    } else if (e.key === 'End') {
+      nextIndex = buttons.length - 1;
+    }
+
+    if (nextIndex !== null && buttons[nextIndex]) {
+      e.preventDefault();
+      buttons[nextIndex].focus();
+    }
+  };
+
+  return (
+    <Sidebar side="right" className="border-cyan-500/30" aria-label="Conversation history">
+      <SidebarHeader className="bg-slate-800 border-b border-cyan-500/30">
+        <div className="flex items-center justify-between">
+          <h2 className="text-cyan-300 font-semibold flex items-center space-x-2">
+            <History className="w-4 h-4" />
+            <span>Conversation History</span>
+          </h2>
+          <Button
+            onClick={clearHistory}
+            size="sm"
+            variant="ghost"
+            className="text-cyan-300 hover:bg-cyan-600 hover:text-white"
+            aria-label="Clear conversation history"
+            disabled={entries.length === 0}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+        <SidebarInput
+          placeholder="Search history..."
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          className="bg-slate-700 border-cyan-500/50 text-white placeholder-slate-400"
+          aria-label="Search conversation history"
+        />
+      </SidebarHeader>
+
+      <SidebarContent className="bg-slate-800">
+        <SidebarGroup>
+          <SidebarGroupLabel className="text-slate-400">
+            {visibleEntries.length} of {entries.length} entries
+          </SidebarGroupLabel>
+          <SidebarGroupContent>
+            {visibleEntries.length === 0 ? (
+              <p className="text-sm text-slate-400 px-2">
+                {entries.length === 0 ? 'Nothing has been said yet.' : 'No entries match your search.'}
+              </p>
+            ) : (
+              <SidebarMenu ref={listRef} onKeyDown={handleListKeyDown} aria-label="History entries">
+                {visibleEntries.map((entry) => (
+                  <SidebarMenuItem key={entry.id}>
+                    <SidebarMenuButton
+                      data-history-entry
+                      onClick={() => replayEntry(entry)}
+                      className="h-auto items-start text-slate-200 hover:bg-slate-700 hover:text-white"
+                      aria-label={`${entry.role === 'user' ? 'You said' : 'BlindAssist said'} at ${formatTime(entry.timestamp)}: ${entry.text}. Press Enter to replay.`}
+                    >
+                      {entry.role === 'user' ? (
+                        <User className="mt-0.5 text-cyan-400" />
+                      ) : (
+                        <Volume2 className="mt-0.5 text-cyan-400" />
+                      )}
+                      <div className="min-w-0">
+                        <p className="text-xs text-slate-400">{formatTime(entry.timestamp)}</p>
+                        <p className="line-clamp-3 whitespace-normal">{entry.text}</p>
+                      </div>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            )}
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+    </Sidebar>
+  );
+};
+
+export default ConversationHistory;
@@ -0,0 +1,262 @@
+import React, { useState } from 'react';
+import { Pencil, Plus, Trash2, Wand2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useCustomCommands } from '@/hooks/use-custom-commands';
+import CustomCommandService, {
+  CustomCommand,
+  MacroAction,
+  MacroStep,
+  MACRO_ACTION_LABELS,
+  describeStep
+} from '@/services/CustomCommandService';
+import { AssistMode, MODE_LABELS } from '@/services/AssistModeService';
+import { SpeechOptions } from '@/services/SpeechOutputService';
+
+interface CustomCommandEditorProps {
+  onSpeech: (text: string, options?: SpeechOptions) => void;
+}
+
+const customCommandService = CustomCommandService.getInstance();
+
+const ACTIONS = Object.keys(MACRO_ACTION_LABELS) as MacroAction[];
+const MODES = Object.keys(MODE_LABELS) as AssistMode[];
+
+const CustomCommandEditor = ({ onSpeech }: CustomCommandEditorProps) => {
+  const commands = useCustomCommands();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [phrase, setPhrase] = useState('');
+  const [steps, setSteps] = useState<MacroStep[]>([]);
+  const [action, setAction] = useState<MacroAction>('date');
+  const [query, setQuery] = useState('');
+  const [mode, setMode] = useState<AssistMode>('voice');
+  const { toast } = useToast();
+
+  const resetForm = () => {
+    setEditingId(null);
+    setPhrase('');
+    setSteps([]);
+    setQuery('');
+  };
+
+  const addStep = () => {
+    let step: MacroStep;
+    if (action === 'search') {
+      if (!query.trim()) {
+        onSpeech('Please enter what to search for.', { interrupt: true });
+        return;
+      }
+      step = { action, query: query.trim() };
+      setQuery('');
+    } else if (action === 'switchMode') {
+      step = { action, mode };
+    } else {
+      step = { action };
+    }
+    setSteps([...steps, step]);
+    onSpeech(`Added: ${describeStep(step)}. ${steps.length + 1} action${steps.length === 0 ? '' : 's'} so far.`, { interrupt: true });
+  };
+
+  const removeStep = (index: number) => {
+    const removed = steps[index];
+    setSteps(steps.filter((_, i) => i !== index));
+    onSpeech(`Removed: ${describeStep(removed)}.`, { interrupt: true });
+  };
+
+  const saveCommand = () => {
+    const result = customCommandService.save(phrase, steps, editingId ?? undefined);
+    if (result.ok === false) {
+      onSpeech(result.reason, { interrupt: true });
+      toast({
+        title: 'Command Not Saved',
+        description: result.reason,
+        variant: 'destructive',
+      });
+      return;
+    }
+    onSpeech(`Saved. Say "${result.command.phrase}" to run it.`, { interrupt: true });
+    toast({
+      title: 'Command Saved',
+      description: `"${result.command.phrase}" runs ${result.command.steps.length} action${result.command.steps.length === 1 ? '' : 's'}`,
+    });
+    resetForm();
+  };
+
+  const editCommand = (command: CustomCommand) => {
+    setEditingId(command.id);
+    setPhrase(command.phrase);
+    setSteps(command.steps);
+    onSpeech(`Editing "${command.phrase}".`, { interrupt: true });
+  };
+
+  const deleteCommand = (command: CustomCommand) => {
+    customCommandService.remove(command.id);
+    if (editingId === command.id) {
+      resetForm();
+    }
+    onSpeech(`Deleted "${command.phrase}".`, { interrupt: true });
+  };
+
+  return (
+    <Card className="bg-slate-800 border-cyan-500/30 mt-8">
+      <CardHeader>
+        <CardTitle className="text-cyan-300 flex items-center space-x-2">
+          <Wand2 className="w-5 h-5" />
+          <span>Custom Commands</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        {commands.length === 0 ? (
+          <p className="text-slate-400">
+            No custom commands yet. For example, make "morning" say the date, the weather and today's headlines.
+          </p>
+        ) : (
+          <ul className="space-y-3" aria-label="Your custom commands">
+            {commands.map((command) => (
+              <li
+                key={command.id}
+                className="flex items-start justify-between border border-slate-600 rounded-lg p-4"
+              >
+                <div>
+                  <p className="text-cyan-300 font-medium">"{command.phrase}"</p>
+                  <p className="text-sm text-slate-300">{command.steps.map(describeStep).join(', then ')}</p>
+                </div>
+                <div className="flex space-x-2 ml-2">
+                  <Button
+                    onClick={() => editCommand(command)}
+                    size="sm"
+                    variant="outline"
+                    className="border-cyan-500/50 text-cyan-300 hover:bg-cyan-600 hover:text-white"
+                    aria-label={`Edit ${command.phrase}`}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    onClick={() => deleteCommand(command)}
+                    size="sm"
+                    variant="outline"
+                    className="border-cyan-500/50 text-cyan-300 hover:bg-red-600 hover:text-white"
+                    aria-label={`Delete ${command.phrase}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-4" role="group" aria-label={editingId ? 'Edit custom command' : 'New custom command'}>
+          <div className="space-y-2">
+            <Label htmlFor="custom-phrase-input" className="text-cyan-300">When I say</Label>
+            <Input
+              id="custom-phrase-input"
+              value={phrase}
+              onChange={(e) => setPhrase(e.target.value)}
+              placeholder="e.g. morning"
+              className="bg-slate-700 border-cyan-500/50 text-white placeholder-slate-400 focus:border-cyan-400"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <span className="text-cyan-300 text-sm font-medium">Do these actions</span>
+            {steps.length === 0 ? (
+              <p className="text-sm text-slate-400">No actions added yet.</p>
+            ) : (
+              <ol className="space-y-2" aria-label="Actions in order">
+                {steps.map((step, index) => (
+                  <li key={index} className="flex items-center justify-between text-slate-300">
+                    <span>{index + 1}. {describeStep(step)}</span>
+                    <Button
+                      onClick={() => removeStep(index)}
+                      size="sm"
+                      variant="ghost"
+                      className="text-cyan-300 hover:bg-slate-700 hover:text-cyan-100"
+                      aria-label={`Remove action ${index + 1}: ${describeStep(step)}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Select value={action} onValueChange={(value) => setAction(value as MacroAction)}>
+              <SelectTrigger className="w-56 bg-slate-700 border-cyan-500/50 text-white" aria-label="Action to add">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ACTIONS.map((option) => (
+                  <SelectItem key={option} value={option}>{MACRO_ACTION_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {action === 'search' && (
+              <Input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyPress={(e) => {
+                  if (e.key === 'Enter') {
+                    addStep();
+                  }
+                }}
+                placeholder="What to search for"
+                className="flex-1 bg-slate-700 border-cyan-500/50 text-white placeholder-slate-400 focus:border-cyan-400"
+                aria-label="Search query for this action"
+              />
+            )}
+            {action === 'switchMode' && (
+              <Select value={mode} onValueChange={(value) => setMode(value as AssistMode)}>
+                <SelectTrigger className="w-56 bg-slate-700 border-cyan-500/50 text-white" aria-label="Mode to switch to">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MODES.map((option) => (
+                    <SelectItem key={option} value={option}>{MODE_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button
+              onClick={addStep}
+              variant="outline"
+              className="border-cyan-500/50 text-cyan-300 hover:bg-cyan-600 hover:text-white"
+              aria-label="Add this action"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Action
+            </Button>
+          </div>
+
+          <div className="flex space-x-2">
+            <Button
+              onClick={saveCommand}
+              className="bg-cyan-600 hover:bg-cyan-700"
+              aria-label={editingId ? 'Save changes to custom command' : 'Save new custom command'}
+            >
+              {editingId ? 'Save Changes' : 'Save Command'}
+            </Button>
+            {(editingId || phrase || steps.length > 0) && (
+              <Button
+                onClick={resetForm}
+                variant="outline"
+                className="border-cyan-500/50 text-cyan-300 hover:bg-cyan-600 hover:text-white"
+                aria-label="Discard this custom command"
+              >
+                Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CustomCommandEditor;
@@ -4,11 +4,16 @@ import { Upload, Image as ImageIcon, Loader2, Eye } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
+import { SpeechOptions } from '@/services/SpeechOutputService';
+import { useModeActions } from '@/hooks/use-assist-mode';
+import OperationTrackerService, { isAbortError, wait } from '@/services/OperationTrackerService';
 
 interface ImageDescriberProps {
-  onSpeech: (text: string) => void;
+  onSpeech: (text: string, options?: SpeechOptions) => void;
 }
 
+const operationTracker = OperationTrackerService.getInstance();
+
 const ImageDescriber = ({ onSpeech }: ImageDescriberProps) => {
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string>('');
@@ -70,24 +75,27 @@ const ImageDescriber = ({ onSpeech }: ImageDescriberProps) => {
     }
 
     setIsAnalyzing(true);
-    onSpeech('Analyzing your image. Please wait while I examine the visual content in detail.');
+    onSpeech('Analyzing your image. Please wait while I examine the visual content in detail.', { priority: 'progress' });
 
     try {
       // Simulate image analysis (in a real implementation, you'd use an AI vision service)
-      setTimeout(() => {
-        const mockDescription = `This image shows a detailed scene with multiple elements. I can see various objects, colors, and textures arranged in the composition. The lighting appears to be natural, creating depth and contrast throughout the image. There are distinct foreground and background elements that create visual interest. The overall mood of the image is calm and well-balanced, with a harmonious color palette that draws the viewer's attention to the main focal points.`;
-        
-        setDescription(mockDescription);
-        setIsAnalyzing(false);
-        onSpeech(`Image analysis complete. Here is what I see: ${mockDescription}`);
-        
-        toast({
-          title: 'Analysis Complete',
-          description: 'Image has been successfully analyzed.',
-        });
-      }, 3000);
+      await operationTracker.run('describe image', (signal) => wait(3000, signal));
+      const mockDescription = `This image shows a detailed scene with multiple elements. I can see various objects, colors, and textures arranged in the composition. The lighting appears to be natural, creating depth and contrast throughout the image. There are distinct foreground and background elements that create visual interest. The overall mood of the image is calm and well-balanced, with a harmonious color palette that draws the viewer's attention to the main focal points.`;
+      
+      setDescription(mockDescription);
+      setIsAnalyzing(false);
+      onSpeech(`Image analysis complete. Here is what I see: ${mockDescription}`);
+      
+      toast({
+        title: 'Analysis Complete',
+        description: 'Image has been successfully analyzed.',
+      });
     } catch (error) {
       setIsAnalyzing(false);
+      if (isAbortError(error)) {
+        // Stopped by the user, who asked for silence
+        return;
+      }
       onSpeech('I encountered an error while analyzing the image. Please try again.');
       toast({
         title: 'Analysis Error',
@@ -97,6 +105,11 @@ const ImageDescriber = ({ onSpeech }: ImageDescriberProps) => {
     }
   };
 
+  // "Describe the image" from any mode lands here
+  useModeActions('image', () => {
+    analyzeImage();
+  });
+
   const triggerFileInput = () => {
     fileInputRef.current?.click();
   };
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { Newspaper, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { useNewsFeeds } from '@/hooks/use-news-feeds';
+import NewsFeedService, { NewsFeed } from '@/services/NewsFeedService';
+import { SpeechOptions } from '@/services/SpeechOutputService';
+
+interface NewsFeedEditorProps {
+  onSpeech: (text: string, options?: SpeechOptions) => void;
+}
+
+const newsFeedService = NewsFeedService.getInstance();
+
+const NewsFeedEditor = ({ onSpeech }: NewsFeedEditorProps) => {
+  const feeds = useNewsFeeds();
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const { toast } = useToast();
+
+  const addFeed = () => {
+    const result = newsFeedService.save(name, url);
+    if (result.ok === false) {
+      onSpeech(result.reason, { interrupt: true });
+      toast({
+        title: 'Feed Not Added',
+        description: result.reason,
+        variant: 'destructive',
+      });
+      return;
+    }
+    onSpeech(`Added ${result.feed.name} to your news sources.`, { interrupt: true });
+    toast({
+      title: 'Feed Added',
+      description: result.feed.url,
+    });
+    setName('');
+    setUrl('');
+  };
+
+  const toggleFeed = (feed: NewsFeed, enabled: boolean) => {
+    newsFeedService.setEnabled(feed.id, enabled);
+    onSpeech(`${feed.name} turned ${enabled ? 'on' : 'off'}.`, { interrupt: true });
+  };
+
+  const deleteFeed = (feed: NewsFeed) => {
+    newsFeedService.remove(feed.id);
+    onSpeech(`Removed ${feed.name}.`, { interrupt: true });
+  };
+
+  return (
+    <Card className="bg-slate-800 border-cyan-500/30 mt-8">
+      <CardHeader>
+        <CardTitle className="text-cyan-300 flex items-center space-x-2">
+          <Newspaper className="w-5 h-5" />
+          <span>News Sources</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        {feeds.length === 0 ? (
+          <p className="text-slate-400">
+            No news sources yet. Add an RSS, Atom or JSON feed to hear its headlines.
+          </p>
+        ) : (
+          <ul className="space-y-3" aria-label="Your news sources">
+            {feeds.map((feed) => (
+              <li
+                key={feed.id}
+                className="flex items-center justify-between border border-slate-600 rounded-lg p-4"
+              >
+                <div className="min-w-0">
+                  <p className="text-cyan-300 font-medium">{feed.name}</p>
+                  <p className="text-sm text-slate-300 break-all">{feed.url}</p>
+                </div>
+                <div className="flex items-center space-x-2 ml-2">
+                  <Switch
+                    checked={feed.enabled}
+                    onCheckedChange={(enabled) => toggleFeed(feed, enabled)}
+                    aria-label={`Read headlines from ${feed.name}`}
+                  />
+                  <Button
+                    onClick={() => deleteFeed(feed)}
+                    size="sm"
+                    variant="outline"
+                    className="border-cyan-500/50 text-cyan-300 hover:bg-red-600 hover:text-white"
+                    aria-label={`Remove ${feed.name}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-4" role="group" aria-label="New news source">
+          <div className="space-y-2">
+            <Label htmlFor="feed-url-input" className="text-cyan-300">Feed address</Label>
+            <Input
+              id="feed-url-input"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              onKeyPress={(e) => {
+                if (e.key === 'Enter') {
+                  addFeed();
+                }
+              }}
+              placeholder="e.g. https://example.org/news/rss.xml"
+              className="bg-slate-700 border-cyan-500/50 text-white placeholder-slate-400 focus:border-cyan-400"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="feed-name-input" className="text-cyan-300">Name to read out</Label>
+            <Input
+              id="feed-name-input"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Optional, e.g. Local News"
+              className="bg-slate-700 border-cyan-500/50 text-white placeholder-slate-400 focus:border-cyan-400"
+            />
+          </div>
+          <Button
+            onClick={addFeed}
+            variant="outline"
+            className="border-cyan-500/50 text-cyan-300 hover:bg-cyan-600 hover:text-white"
+            aria-label="Add this news source"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Feed
+          </Button>
+          <p className="text-sm text-slate-400">
+            The newest stories from every source that is turned on are read together. The feed's site must allow other sites to load it, which many news sites do not.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NewsFeedEditor;
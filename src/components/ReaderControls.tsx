@@ -0,0 +1,110 @@
+import React from 'react';
+import { Pause, Play, SkipBack, SkipForward, RotateCcw, Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useReader } from '@/hooks/use-reader';
+import SegmentedReaderService from '@/services/SegmentedReaderService';
+
+const readerService = SegmentedReaderService.getInstance();
+
+const ReaderControls = () => {
+  const reader = useReader();
+
+  if (reader.segments.length === 0) {
+    return null;
+  }
+
+  const kindLabel = reader.kind.charAt(0).toUpperCase() + reader.kind.slice(1);
+  const isPlaying = reader.status === 'playing';
+
+  // Arrow keys and Space work anywhere inside the reader card
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const actions: Record<string, () => void> = {
+      ArrowRight: () => readerService.next(),
+      ArrowLeft: () => readerService.previous(),
+      Home: () => readerService.restart(),
+      ' ': () => readerService.togglePause(),
+      k: () => readerService.togglePause(),
+    };
+    const action = actions[e.key];
+    // Let Space keep activating whichever button has focus
+    if (e.key === ' ' && e.target !== e.currentTarget) {
+      return;
+    }
+    if (action) {
+      e.preventDefault();
+      action();
+    }
+  };
+
+  return (
+    <Card
+      className="bg-slate-700 border-cyan-500/50"
+      role="region"
+      aria-label={`Reader for ${reader.title}. Use left and right arrows to move between ${reader.kind}s, Space to pause or resume, Home to start over.`}
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+    >
+      <CardHeader>
+        <CardTitle className="text-cyan-300 flex items-center justify-between">
+          <span>Reading: {reader.title}</span>
+          <span className="text-sm text-slate-300 font-normal" aria-live="polite">
+            {kindLabel} {reader.index + 1} of {reader.segments.length}
+            {reader.status === 'paused' && ' (paused)'}
+            {reader.status === 'finished' && ' (finished)'}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="text-white leading-relaxed mb-4">{reader.segments[reader.index]}</p>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            onClick={() => readerService.restart()}
+            variant="outline"
+            className="border-cyan-500/50 text-cyan-300 hover:bg-cyan-600 hover:text-white"
+            aria-label="Jump to start"
+            aria-keyshortcuts="Home"
+          >
+            <RotateCcw className="w-4 h-4" />
+          </Button>
+          <Button
+            onClick={() => readerService.previous()}
+            variant="outline"
+            className="border-cyan-500/50 text-cyan-300 hover:bg-cyan-600 hover:text-white"
+            aria-label={`Previous ${reader.kind}`}
+            aria-keyshortcuts="ArrowLeft"
+          >
+            <SkipBack className="w-4 h-4" />
+          </Button>
+          <Button
+            onClick={() => readerService.togglePause()}
+            className="bg-cyan-600 hover:bg-cyan-700"
+            aria-label={isPlaying ? 'Pause reading' : 'Resume reading'}
+            aria-keyshortcuts="Space"
+          >
+            {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </Button>
+          <Button
+            onClick={() => readerService.next()}
+            variant="outline"
+            className="border-cyan-500/50 text-cyan-300 hover:bg-cyan-600 hover:text-white"
+            aria-label={`Next ${reader.kind}`}
+            aria-keyshortcuts="ArrowRight"
+          >
+            <SkipForward className="w-4 h-4" />
+          </Button>
+          <Button
+            onClick={() => readerService.stop()}
+            variant="outline"
+            className="border-cyan-500/50 text-cyan-300 hover:bg-cyan-600 hover:text-white"
+            aria-label="Stop reading and close reader"
+          >
+            <Square className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReaderControls;
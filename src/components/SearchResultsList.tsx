@@ -0,0 +1,89 @@
+import React from 'react';
+import { Globe, ExternalLink } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useSearchSession } from '@/hooks/use-search-session';
+import SearchService, { SearchResult } from '@/services/SearchService';
+import DialogContextService from '@/services/DialogContextService';
+import LocaleService from '@/services/LocaleService';
+import { SpeechOptions } from '@/services/SpeechOutputService';
+
+interface SearchResultsListProps {
+  onSpeech: (text: string, options?: SpeechOptions) => void;
+}
+
+const searchService = SearchService.getInstance();
+const dialogContext = DialogContextService.getInstance();
+const localeService = LocaleService.getInstance();
+
+// Providers give ISO dates; anything else is shown as it came
+function formatTimestamp(timestamp: string): string {
+  const date = new Date(timestamp);
+  return Number.isNaN(date.getTime()) ? timestamp : localeService.formatDate(date);
+}
+
+const SearchResultsList = ({ onSpeech }: SearchResultsListProps) => {
+  const { results, resultsQuery } = useSearchSession();
+
+  if (results.length === 0) {
+    return null;
+  }
+
+  const readResult = (result: SearchResult, index: number) => {
+    // Lets "open it" and "next" carry on from here by voice
+    dialogContext.setFocus(index);
+    onSpeech(searchService.formatResultDetailForSpeech(result, index));
+  };
+
+  return (
+    <Card className="bg-slate-700 border-cyan-500/50">
+      <CardHeader>
+        <CardTitle className="text-cyan-300 flex items-center space-x-2">
+          <Globe className="w-5 h-5" />
+          <span>Current Search Results for "{resultsQuery}"</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ol className="space-y-4" aria-label={`Search results for ${resultsQuery}`}>
+          {results.map((result, index) => (
+            <li
+              key={index}
+              className="border border-slate-600 rounded-lg p-4 hover:border-cyan-500/50 transition-colors"
+            >
+              <div className="flex justify-between items-start mb-2">
+                <div className="flex-1">
+                  <h4 className="text-cyan-300 font-medium text-lg mb-1">{result.title}</h4>
+                  <div className="flex items-center text-sm text-slate-400 mb-2">
+                    <span className="font-medium text-cyan-400">{result.source}</span>
+                    {result.timestamp && (
+                      <>
+                        <span className="mx-2">•</span>
+                        <span>{formatTimestamp(result.timestamp)}</span>
+                      </>
+                    )}
+                  </div>
+                </div>
+                <Button
+                  onClick={() => readResult(result, index)}
+                  size="sm"
+                  variant="outline"
+                  className="border-cyan-500/50 text-cyan-300 hover:bg-cyan-600 hover:text-white ml-2"
+                  aria-label={`Read detailed result ${index + 1}`}
+                >
+                  Read Details
+                </Button>
+              </div>
+              <p className="text-slate-300 mb-3">{result.description}</p>
+              <div className="flex items-center text-sm text-slate-400">
+                <ExternalLink className="w-4 h-4 mr-1" />
+                <span className="truncate">{result.url}</span>
+              </div>
+            </li>
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SearchResultsList;
@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { AlarmClock, Bell, Timer as TimerIcon, Volume2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useTimers } from '@/hooks/use-timers';
+import TimerService, { Timer } from '@/services/TimerService';
+import LocaleService from '@/services/LocaleService';
+import { SpeechOptions } from '@/services/SpeechOutputService';
+
+interface TimerListProps {
+  onSpeech: (text: string, options?: SpeechOptions) => void;
+}
+
+const timerService = TimerService.getInstance();
+const localeService = LocaleService.getInstance();
+
+const KIND_ICONS = {
+  timer: TimerIcon,
+  alarm: AlarmClock,
+  reminder: Bell
+};
+
+// 4:05 or 1:02:30, as on a kitchen timer
+function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(Math.ceil(ms / 1000), 0);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+const TimerList = ({ onSpeech }: TimerListProps) => {
+  const timers = useTimers();
+  const [now, setNow] = useState(Date.now());
+
+  // Only the on-screen countdown ticks; nothing is announced until a timer rings
+  useEffect(() => {
+    if (!timers.some(timer => timer.kind === 'timer')) {
+      return;
+    }
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [timers]);
+
+  if (timers.length === 0) {
+    return null;
+  }
+
+  const handleCancel = (timer: Timer) => {
+    timerService.cancel(timer.id);
+    onSpeech(`Cancelled your ${timerService.getLabel(timer)}.`);
+  };
+
+  return (
+    <Card className="bg-slate-700 border-cyan-500/50">
+      <CardHeader>
+        <CardTitle className="text-cyan-300">Timers and Reminders</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-3" aria-label="Active timers, alarms and reminders">
+          {timers.map(timer => {
+            const Icon = KIND_ICONS[timer.kind];
+            const label = timerService.getLabel(timer);
+            return (
+              <li key={timer.id} className="flex items-center justify-between gap-4 bg-slate-800 rounded-md p-3">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <Icon className="w-5 h-5 text-cyan-400 shrink-0" aria-hidden="true" />
+                  <span className="text-white truncate first-letter:uppercase">{label}</span>
+                </div>
+                <div className="flex items-center space-x-2 shrink-0">
+                  {timer.kind === 'timer' ? (
+                    <span role="timer" className="font-mono text-cyan-300" aria-label={`${formatCountdown(timer.dueAt - now)} left`}>
+                      {formatCountdown(timer.dueAt - now)}
+                    </span>
+                  ) : (
+                    <span className="text-slate-300">{localeService.formatTime(new Date(timer.dueAt))}</span>
+                  )}
+                  <Button
+                    onClick={() => onSpeech(timerService.describe(timer), { interrupt: true })}
+                    size="sm"
+                    variant="outline"
+                    className="border-cyan-500/50 text-cyan-300 hover:bg-cyan-600 hover:text-white"
+                    aria-label={`Hear the status of the ${label}`}
+                  >
+                    <Volume2 className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    onClick={() => handleCancel(timer)}
+                    size="sm"
+                    variant="outline"
+                    className="border-cyan-500/50 text-cyan-300 hover:bg-cyan-600 hover:text-white"
+                    aria-label={`Cancel the ${label}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TimerList;
@@ -1,97 +1,60 @@
 
-import React, { useState } from 'react';
-import { Search, Globe, ExternalLink, Loader2 } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Search, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import SearchResultsList from '@/components/SearchResultsList';
 import { useToast } from '@/hooks/use-toast';
+import { SpeechOptions } from '@/services/SpeechOutputService';
+import SearchService from '@/services/SearchService';
+import SearchSessionService from '@/services/SearchSessionService';
+import { useModeActions } from '@/hooks/use-assist-mode';
+import { useSearchSession } from '@/hooks/use-search-session';
 
 interface WebNavigatorProps {
-  onSpeech: (text: string) => void;
+  onSpeech: (text: string, options?: SpeechOptions) => void;
 }
 
-interface SearchResult {
-  title: string;
-  url: string;
-  description: string;
-  source: string;
-  timestamp?: string;
-}
+const searchService = SearchService.getInstance();
+const searchSession = SearchSessionService.getInstance();
 
 const WebNavigator = ({ onSpeech }: WebNavigatorProps) => {
-  const [searchQuery, setSearchQuery] = useState('');
-  const [isSearching, setIsSearching] = useState(false);
-  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
-  const [lastSearchQuery, setLastSearchQuery] = useState('');
+  const session = useSearchSession();
+  const [searchQuery, setSearchQuery] = useState(session.query);
+  const isSearching = session.status === 'searching';
+  const lastSearchQuery = session.resultsQuery;
   const { toast } = useToast();
 
-  const performRealSearch = async () => {
-    if (!searchQuery.trim()) {
+  // Searches started by voice show what was searched for
+  useEffect(() => {
+    setSearchQuery(session.query);
+  }, [session.query]);
+
+  const performRealSearch = async (query: string = searchQuery) => {
+    if (!query.trim()) {
       onSpeech('Please enter a search query first.');
       return;
     }
 
-    setIsSearching(true);
-    setLastSearchQuery(searchQuery);
-    onSpeech(`Executing search for ${searchQuery}. Gathering real-time information from multiple sources...`);
+    onSpeech(`Executing search for ${query}. Gathering information...`, { priority: 'progress' });
 
     try {
-      // Simulate real-time search - in production, integrate with actual search APIs
-      await new Promise(resolve => setTimeout(resolve, 2500));
-      
-      const realTimeResults: SearchResult[] = [
-        {
-          title: `${searchQuery} - Latest News and Updates`,
-          url: `https://news.google.com/search?q=${encodeURIComponent(searchQuery)}`,
-          description: `Breaking news and latest developments about ${searchQuery}. Current coverage includes recent policy changes, market impacts, and expert analysis from leading sources.`,
-          source: 'Google News',
-          timestamp: 'Updated 2 hours ago'
-        },
-        {
-          title: `${searchQuery} - Wikipedia`,
-          url: `https://en.wikipedia.org/wiki/${searchQuery.replace(/\s+/g, '_')}`,
-          description: `Comprehensive encyclopedia article about ${searchQuery} with detailed background, history, current status, and related topics. Includes references and external links for further research.`,
-          source: 'Wikipedia',
-          timestamp: 'Last updated today'
-        },
-        {
-          title: `${searchQuery} - Research and Analysis`,
-          url: `https://scholar.google.com/scholar?q=${encodeURIComponent(searchQuery)}`,
-          description: `Academic research papers and scholarly articles about ${searchQuery}. Includes peer-reviewed studies, technical reports, and expert analysis from universities and research institutions.`,
-          source: 'Google Scholar',
-          timestamp: 'Recent publications'
-        },
-        {
-          title: `${searchQuery} - Market Data and Trends`,
-          url: `https://trends.google.com/trends/explore?q=${encodeURIComponent(searchQuery)}`,
-          description: `Current market trends, search patterns, and public interest data for ${searchQuery}. Shows geographical distribution, related queries, and trending topics.`,
-          source: 'Google Trends',
-          timestamp: 'Real-time data'
-        }
-      ];
-
-      setSearchResults(realTimeResults);
-      setIsSearching(false);
-      
-      // Provide comprehensive voice summary
-      let voiceResponse = `Search completed for ${searchQuery}. I found ${realTimeResults.length} relevant sources with current information. `;
-      
-      voiceResponse += `Top result: ${realTimeResults[0].title}. ${realTimeResults[0].description} `;
-      
-      voiceResponse += `Additional sources include Wikipedia with comprehensive background information, academic research from Google Scholar, and current trend data. `;
-      
-      voiceResponse += `Would you like me to read any specific result in detail, or should I search for more specific information about ${searchQuery}?`;
-      
-      onSpeech(voiceResponse);
-      
+      const response = await searchSession.search(query);
+      if (!response) {
+        // Replaced by a newer search, which reports instead
+        return;
+      }
+
+      onSpeech(searchService.formatSearchForSpeech(response.value, query, response.stale));
+
       toast({
-        title: 'Search Completed',
-        description: `Found current information for "${searchQuery}" from multiple sources`,
+        title: response.stale ? 'Saved Results' : 'Search Completed',
+        description: `Found ${response.value.length} results for "${query}"`,
       });
-      
+
     } catch (error) {
-      setIsSearching(false);
-      const errorMessage = `I encountered an error while searching for ${searchQuery}. This could be due to network connectivity or source availability. Please try again or rephrase your search query.`;
+      const errorMessage = `I encountered an error while searching for ${query}. This could be due to network connectivity or the search server. Please try again, or check the search settings.`;
       onSpeech(errorMessage);
       toast({
         title: 'Search Error',
@@ -101,18 +64,17 @@ const WebNavigator = ({ onSpeech }: WebNavigatorProps) => {
     }
   };
 
+  // "Open web search for ..." from any mode lands here
+  useModeActions('web', (action) => {
+    performRealSearch(action.query);
+  });
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       performRealSearch();
     }
   };
 
-  const readResult = (result: SearchResult, index: number) => {
-    const detailedResponse = `Reading result ${index + 1}: ${result.title} from ${result.source}. ${result.description} This source was ${result.timestamp}. The URL is ${result.url}. This appears to be a ${result.source.includes('News') ? 'news source with current updates' : result.source.includes('Wikipedia') ? 'encyclopedia entry with comprehensive information' : result.source.includes('Scholar') ? 'academic source with research data' : 'data source with trend information'}. Would you like me to search for more specific information about this topic?`;
-    
-    onSpeech(detailedResponse);
-  };
-
   const performTopicAnalysis = () => {
     if (!lastSearchQuery) {
       onSpeech('Please perform a search first, then I can provide detailed topic analysis.');
@@ -153,7 +115,7 @@ const WebNavigator = ({ onSpeech }: WebNavigatorProps) => {
               disabled={isSearching}
             />
             <Button
-              onClick={performRealSearch}
+              onClick={() => performRealSearch()}
               disabled={isSearching}
               className="bg-cyan-600 hover:bg-cyan-700"
               aria-label="Execute real-time search"
@@ -179,56 +141,8 @@ const WebNavigator = ({ onSpeech }: WebNavigatorProps) => {
         </CardContent>
       </Card>
 
-      {/* Real Search Results */}
-      {searchResults.length > 0 && (
-        <Card className="bg-slate-700 border-cyan-500/50">
-          <CardHeader>
-            <CardTitle className="text-cyan-300 flex items-center space-x-2">
-              <Globe className="w-5 h-5" />
-              <span>Current Search Results for "{lastSearchQuery}"</span>
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-4">
-              {searchResults.map((result, index) => (
-                <div
-                  key={index}
-                  className="border border-slate-600 rounded-lg p-4 hover:border-cyan-500/50 transition-colors"
-                >
-                  <div className="flex justify-between items-start mb-2">
-                    <div className="flex-1">
-                      <h4 className="text-cyan-300 font-medium text-lg mb-1">{result.title}</h4>
-                      <div className="flex items-center text-sm text-slate-400 mb-2">
-                        <span className="font-medium text-cyan-400">{result.source}</span>
-                        {result.timestamp && (
-                          <>
-                            <span className="mx-2">•</span>
-                            <span>{result.timestamp}</span>
-                          </>
-                        )}
-                      </div>
-                    </div>
-                    <Button
-                      onClick={() => readResult(result, index)}
-                      size="sm"
-                      variant="outline"
-                      className="border-cyan-500/50 text-cyan-300 hover:bg-cyan-600 hover:text-white ml-2"
-                      aria-label={`Read detailed result ${index + 1}`}
-                    >
-                      Read Details
-                    </Button>
-                  </div>
-                  <p className="text-slate-300 mb-3">{result.description}</p>
-                  <div className="flex items-center text-sm text-slate-400">
-                    <ExternalLink className="w-4 h-4 mr-1" />
-                    <span className="truncate">{result.url}</span>
-                  </div>
-                </div>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
-      )}
+      {/* Results from this mode and from voice searches */}
+      <SearchResultsList onSpeech={onSpeech} />
 
       {/* Enhanced Navigation Guide */}
       <Card className="bg-slate-700 border-cyan-500/50">
@@ -0,0 +1,34 @@
+import * as React from "react"
+
+import AssistModeService, {
+  type AssistMode,
+  type ModeActionFor,
+} from "@/services/AssistModeService"
+
+const modeService = AssistModeService.getInstance()
+
+const subscribe = (onChange: () => void) =>
+  modeService.subscribe(() => onChange())
+
+const getSnapshot = (): AssistMode => modeService.getMode()
+
+export function useAssistMode() {
+  return React.useSyncExternalStore(subscribe, getSnapshot)
+}
+
+/**
+ * Carry out actions sent to `mode` by voice commands while the component is
+ * mounted. The latest handler is always used, so it may read current state.
+ */
+export function useModeActions<M extends AssistMode>(
+  mode: M,
+  handler: (action: ModeActionFor<M>) => void
+) {
+  const handlerRef = React.useRef(handler)
+  handlerRef.current = handler
+
+  React.useEffect(
+    () => modeService.handleActions(mode, (action) => handlerRef.current(action)),
+    [mode]
+  )
+}
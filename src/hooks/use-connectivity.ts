@@ -0,0 +1,14 @@
+import * as React from "react"
+
+import ConnectivityService from "@/services/ConnectivityService"
+
+const connectivityService = ConnectivityService.getInstance()
+
+const subscribe = (onChange: () => void) =>
+  connectivityService.subscribe(() => onChange())
+
+const getSnapshot = (): boolean => connectivityService.isOnline()
+
+export function useOnline() {
+  return React.useSyncExternalStore(subscribe, getSnapshot)
+}
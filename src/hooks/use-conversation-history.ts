@@ -0,0 +1,14 @@
+import * as React from "react"
+
+import ConversationHistoryService, { type HistoryEntry } from "@/services/ConversationHistoryService"
+
+const historyService = ConversationHistoryService.getInstance()
+
+const subscribe = (onChange: () => void) =>
+  historyService.subscribe(() => onChange())
+
+const getSnapshot = (): HistoryEntry[] => historyService.getEntries()
+
+export function useConversationHistory() {
+  return React.useSyncExternalStore(subscribe, getSnapshot)
+}
@@ -0,0 +1,14 @@
+import * as React from "react"
+
+import CustomCommandService, { type CustomCommand } from "@/services/CustomCommandService"
+
+const customCommandService = CustomCommandService.getInstance()
+
+const subscribe = (onChange: () => void) =>
+  customCommandService.subscribe(() => onChange())
+
+const getSnapshot = (): CustomCommand[] => customCommandService.getCommands()
+
+export function useCustomCommands() {
+  return React.useSyncExternalStore(subscribe, getSnapshot)
+}
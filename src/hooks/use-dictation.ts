@@ -0,0 +1,14 @@
+import * as React from "react"
+
+import DictationService, { type DictationState } from "@/services/DictationService"
+
+const dictationService = DictationService.getInstance()
+
+const subscribe = (onChange: () => void) =>
+  dictationService.subscribe(() => onChange())
+
+const getSnapshot = (): DictationState => dictationService.getState()
+
+export function useDictation() {
+  return React.useSyncExternalStore(subscribe, getSnapshot)
+}
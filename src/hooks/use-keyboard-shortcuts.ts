@@ -0,0 +1,25 @@
+import * as React from "react"
+
+import KeyboardShortcutService, {
+  type ShortcutHandler,
+} from "@/services/KeyboardShortcutService"
+
+const shortcutService = KeyboardShortcutService.getInstance()
+
+/**
+ * Handle app-wide keyboard shortcuts while the component is mounted. The
+ * latest handler is always used, so it may read current state.
+ */
+export function useKeyboardShortcuts(handler: ShortcutHandler) {
+  const handlerRef = React.useRef(handler)
+  handlerRef.current = handler
+
+  React.useEffect(() => {
+    shortcutService.setHandler((action) => handlerRef.current(action))
+    const detach = shortcutService.attach()
+    return () => {
+      detach()
+      shortcutService.setHandler(null)
+    }
+  }, [])
+}
@@ -0,0 +1,14 @@
+import * as React from "react"
+
+import NewsFeedService, { type NewsFeed } from "@/services/NewsFeedService"
+
+const newsFeedService = NewsFeedService.getInstance()
+
+const subscribe = (onChange: () => void) =>
+  newsFeedService.subscribe(() => onChange())
+
+const getSnapshot = (): NewsFeed[] => newsFeedService.getFeeds()
+
+export function useNewsFeeds() {
+  return React.useSyncExternalStore(subscribe, getSnapshot)
+}
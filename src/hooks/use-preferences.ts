@@ -0,0 +1,14 @@
+import * as React from "react"
+
+import PreferencesService, { type Preferences } from "@/services/PreferencesService"
+
+const preferencesService = PreferencesService.getInstance()
+
+const subscribe = (onChange: () => void) =>
+  preferencesService.subscribe(() => onChange())
+
+const getSnapshot = (): Preferences => preferencesService.get()
+
+export function usePreferences() {
+  return React.useSyncExternalStore(subscribe, getSnapshot)
+}
@@ -0,0 +1,14 @@
+import * as React from "react"
+
+import SegmentedReaderService, { type ReaderState } from "@/services/SegmentedReaderService"
+
+const readerService = SegmentedReaderService.getInstance()
+
+const subscribe = (onChange: () => void) =>
+  readerService.subscribe(() => onChange())
+
+const getSnapshot = (): ReaderState => readerService.getState()
+
+export function useReader() {
+  return React.useSyncExternalStore(subscribe, getSnapshot)
+}
@@ -0,0 +1,14 @@
+import * as React from "react"
+
+import SearchSessionService, { type SearchSession } from "@/services/SearchSessionService"
+
+const searchSession = SearchSessionService.getInstance()
+
+const subscribe = (onChange: () => void) =>
+  searchSession.subscribe(() => onChange())
+
+const getSnapshot = (): SearchSession => searchSession.getSession()
+
+export function useSearchSession() {
+  return React.useSyncExternalStore(subscribe, getSnapshot)
+}
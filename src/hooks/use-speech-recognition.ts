@@ -0,0 +1,65 @@
+import * as React from "react"
+
+import { useToast } from "@/hooks/use-toast"
+import SpeechRecognitionService, {
+  type RecognitionState,
+} from "@/services/SpeechRecognitionService"
+import { type SpeechOptions } from "@/services/SpeechOutputService"
+import WakeWordService from "@/services/WakeWordService"
+
+const recognitionService = SpeechRecognitionService.getInstance()
+const wakeWordService = WakeWordService.getInstance()
+
+const subscribe = (onChange: () => void) =>
+  recognitionService.subscribe(() => onChange())
+
+const getSnapshot = (): RecognitionState => recognitionService.getState()
+
+export function useSpeechRecognition() {
+  return React.useSyncExternalStore(subscribe, getSnapshot)
+}
+
+/** Start or stop the app-wide microphone, announcing the change. */
+export function useListeningToggle(
+  onSpeech: (text: string, options?: SpeechOptions) => void
+) {
+  const { toast } = useToast()
+
+  return () => {
+    const { supported, listening, preparing } = recognitionService.getState()
+    if (!supported) {
+      toast({
+        title: "Voice Recognition Not Supported",
+        description: "Your browser does not support voice recognition. Press Alt+Shift+C to type commands instead.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    if (listening || preparing) {
+      recognitionService.stop()
+      onSpeech("Voice listening stopped.", { interrupt: true })
+      return
+    }
+
+    if (recognitionService.needsModelDownload()) {
+      onSpeech(
+        "Loading the offline speech recognizer. The first time this can take a minute.",
+        { interrupt: true }
+      )
+    }
+    recognitionService.start().then((started) => {
+      if (!started) {
+        return
+      }
+      if (wakeWordService.getStatus() === "disabled") {
+        onSpeech("Voice listening started. Speak your command clearly.", { interrupt: true })
+      } else {
+        onSpeech(
+          `Voice listening started. Say "${wakeWordService.getPhrase()}" before each command.`,
+          { interrupt: true }
+        )
+      }
+    })
+  }
+}
@@ -0,0 +1,14 @@
+import * as React from "react"
+
+import TimerService, { type Timer } from "@/services/TimerService"
+
+const timerService = TimerService.getInstance()
+
+const subscribe = (onChange: () => void) =>
+  timerService.subscribe(() => onChange())
+
+const getSnapshot = (): Timer[] => timerService.getTimers()
+
+export function useTimers() {
+  return React.useSyncExternalStore(subscribe, getSnapshot)
+}
@@ -0,0 +1,15 @@
+import * as React from "react"
+
+import VoiceCommandService from "@/services/VoiceCommandService"
+
+const commandService = VoiceCommandService.getInstance()
+
+const subscribe = (onChange: () => void) =>
+  commandService.subscribe(() => onChange())
+
+const getSnapshot = (): boolean => commandService.isProcessing()
+
+/** Whether a voice command is still being carried out. */
+export function useCommandProcessing() {
+  return React.useSyncExternalStore(subscribe, getSnapshot)
+}
@@ -0,0 +1,14 @@
+import * as React from "react"
+
+import WakeWordService, { type WakeWordStatus } from "@/services/WakeWordService"
+
+const wakeWordService = WakeWordService.getInstance()
+
+const subscribe = (onChange: () => void) =>
+  wakeWordService.subscribe(() => onChange())
+
+const getSnapshot = (): WakeWordStatus => wakeWordService.getStatus()
+
+export function useWakeWord() {
+  return React.useSyncExternalStore(subscribe, getSnapshot)
+}
@@ -0,0 +1,610 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, CloudSun, Ear, Eye, Globe, Keyboard, Languages, Mic, Play, RotateCcw, Settings as SettingsIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import CustomCommandEditor from '@/components/CustomCommandEditor';
+import NewsFeedEditor from '@/components/NewsFeedEditor';
+import { useToast } from '@/hooks/use-toast';
+import { usePreferences } from '@/hooks/use-preferences';
+import PreferencesService, {
+  PUSH_TO_TALK_KEYS,
+  RecognitionPreferences,
+  SearchProviderId,
+  SUPPORTED_LOCALES,
+  VoicePreferences,
+  VOICE_LIMITS,
+  WeatherPreferences
+} from '@/services/PreferencesService';
+import SpeechOutputService from '@/services/SpeechOutputService';
+import KeyboardShortcutService from '@/services/KeyboardShortcutService';
+import LocaleService from '@/services/LocaleService';
+
+const DEFAULT_VOICE = 'default';
+const NO_PUSH_TO_TALK = 'off';
+
+const FOLLOW_UP_OPTIONS = [
+  { seconds: 0, label: 'One command per wake phrase' },
+  { seconds: 10, label: '10 seconds after each command' },
+  { seconds: 20, label: '20 seconds after each command' },
+  { seconds: 30, label: '30 seconds after each command' }
+];
+
+const ENGINE_OPTIONS: { engine: RecognitionPreferences['engine']; label: string }[] = [
+  { engine: 'auto', label: 'Automatic' },
+  { engine: 'browser', label: 'Browser recognizer' },
+  { engine: 'whisper', label: 'On this device (works offline)' }
+];
+
+const SEARCH_PROVIDER_OPTIONS: { provider: SearchProviderId; label: string }[] = [
+  { provider: 'local', label: 'Built-in sample results (works offline)' },
+  { provider: 'searxng', label: 'SearXNG server' }
+];
+
+const WEATHER_PROVIDER_OPTIONS: { provider: WeatherPreferences['provider']; label: string }[] = [
+  { provider: 'open-meteo', label: 'Open-Meteo (live forecasts)' },
+  { provider: 'local', label: 'Built-in sample forecasts (works offline)' }
+];
+
+const UNIT_OPTIONS: { units: WeatherPreferences['units']; label: string }[] = [
+  { units: 'auto', label: 'Automatic for my language' },
+  { units: 'celsius', label: 'Celsius and kilometers per hour' },
+  { units: 'fahrenheit', label: 'Fahrenheit and miles per hour' }
+];
+
+const preferencesService = PreferencesService.getInstance();
+const speechOutput = SpeechOutputService.getInstance();
+const shortcutService = KeyboardShortcutService.getInstance();
+const localeService = LocaleService.getInstance();
+
+const Settings = () => {
+  const preferences = usePreferences();
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() => speechOutput.getVoices());
+  const { toast } = useToast();
+  const { voice, wakeWord, language, recognition, shortcuts, search, weather } = preferences;
+  const [wakePhrase, setWakePhrase] = useState(wakeWord.phrase);
+  const [searchEndpoint, setSearchEndpoint] = useState(search.endpoint);
+  // Replies are in English, so other voices would never be used
+  const replyVoices = voices.filter(option => localeService.speaksReplies(option));
+  const selectedVoice = replyVoices.some(option => option.voiceURI === voice.voiceURI) ? voice.voiceURI : null;
+
+  useEffect(() => {
+    if (!speechOutput.isSupported()) {
+      return;
+    }
+    // Chrome loads voices asynchronously and announces them with voiceschanged
+    const updateVoices = () => setVoices(speechOutput.getVoices());
+    window.speechSynthesis.addEventListener('voiceschanged', updateVoices);
+    updateVoices();
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', updateVoices);
+  }, []);
+
+  const previewVoice = () => {
+    speechOutput.speak('This is how BlindAssist will sound with your current voice settings.', { interrupt: true });
+  };
+
+  const handleVoiceChange = (voiceURI: string) => {
+    preferencesService.update('voice', { voiceURI: voiceURI === DEFAULT_VOICE ? null : voiceURI });
+    previewVoice();
+  };
+
+  const handleSliderCommit = (key: keyof Omit<VoicePreferences, 'voiceURI'>, label: string) => (values: number[]) => {
+    preferencesService.update('voice', { [key]: values[0] });
+    speechOutput.speak(`${label} set to ${values[0]}.`, { interrupt: true });
+  };
+
+  const handleReset = () => {
+    preferencesService.reset('voice');
+    speechOutput.speak('Voice settings restored to defaults.', { interrupt: true });
+    toast({
+      title: 'Settings Reset',
+      description: 'Voice settings restored to defaults',
+    });
+  };
+
+  const handleLocaleChange = (code: string) => {
+    const option = SUPPORTED_LOCALES.find(candidate => candidate.code === code);
+    if (option) {
+      preferencesService.update('language', { locale: option.code });
+      speechOutput.speak(
+        `Language set to ${option.label}. Listening switches to it the next time it starts.`,
+        { interrupt: true }
+      );
+    }
+  };
+
+  const handleEngineChange = (value: string) => {
+    const option = ENGINE_OPTIONS.find(candidate => candidate.engine === value);
+    if (option) {
+      preferencesService.update('recognition', { engine: option.engine });
+      speechOutput.speak(
+        `Speech recognition set to ${option.label}. It applies the next time listening starts.`,
+        { interrupt: true }
+      );
+    }
+  };
+
+  const handleSearchProviderChange = (value: string) => {
+    const option = SEARCH_PROVIDER_OPTIONS.find(candidate => candidate.provider === value);
+    if (option) {
+      preferencesService.update('search', { provider: option.provider });
+      speechOutput.speak(
+        option.provider === 'searxng' && !search.endpoint
+          ? `Search set to ${option.label}. Enter the server address next.`
+          : `Search set to ${option.label}.`,
+        { interrupt: true }
+      );
+    }
+  };
+
+  const saveSearchEndpoint = () => {
+    const endpoint = searchEndpoint.trim();
+    if (endpoint === search.endpoint) {
+      return;
+    }
+    let valid = false;
+    try {
+      valid = ['http:', 'https:'].includes(new URL(endpoint).protocol);
+    } catch (error) {
+      valid = false;
+    }
+    if (!valid) {
+      setSearchEndpoint(search.endpoint);
+      speechOutput.speak('The server address must be a full web address starting with https.', { interrupt: true });
+      return;
+    }
+    preferencesService.update('search', { endpoint });
+    speechOutput.speak(`Search server set to ${new URL(endpoint).hostname}.`, { interrupt: true });
+  };
+
+  const handleWeatherProviderChange = (value: string) => {
+    const option = WEATHER_PROVIDER_OPTIONS.find(candidate => candidate.provider === value);
+    if (option) {
+      preferencesService.update('weather', { provider: option.provider });
+      speechOutput.speak(`Weather set to ${option.label}.`, { interrupt: true });
+    }
+  };
+
+  const handleUnitsChange = (value: string) => {
+    const option = UNIT_OPTIONS.find(candidate => candidate.units === value);
+    if (option) {
+      preferencesService.update('weather', { units: option.units });
+      speechOutput.speak(`Weather units set to ${option.label}.`, { interrupt: true });
+    }
+  };
+
+  const handleWakeWordToggle = (enabled: boolean) => {
+    preferencesService.update('wakeWord', { enabled });
+    speechOutput.speak(
+      enabled
+        ? `Wake word enabled. Say "${wakeWord.phrase}" before each command.`
+        : 'Wake word disabled. Every command will be accepted while listening.',
+      { interrupt: true }
+    );
+  };
+
+  const saveWakePhrase = () => {
+    const phrase = wakePhrase.trim().toLowerCase();
+    if (!phrase) {
+      setWakePhrase(wakeWord.phrase);
+      speechOutput.speak('The wake phrase cannot be empty.', { interrupt: true });
+      return;
+    }
+    if (phrase === wakeWord.phrase) {
+      return;
+    }
+    preferencesService.update('wakeWord', { phrase });
+    speechOutput.speak(`Wake phrase set to ${phrase}.`, { interrupt: true });
+  };
+
+  const handleFollowUpChange = (value: string) => {
+    const option = FOLLOW_UP_OPTIONS.find(candidate => String(candidate.seconds) === value);
+    if (option) {
+      preferencesService.update('wakeWord', { followUpSeconds: option.seconds });
+      speechOutput.speak(`${option.label}.`, { interrupt: true });
+    }
+  };
+
+  const handlePushToTalkChange = (value: string) => {
+    const option = PUSH_TO_TALK_KEYS.find(candidate => candidate.code === value);
+    preferencesService.update('shortcuts', { pushToTalkKey: option ? option.code : null });
+    speechOutput.speak(
+      option ? `Hold ${option.label} to talk.` : 'Push to talk turned off.',
+      { interrupt: true }
+    );
+  };
+
+  const sliders: { key: keyof Omit<VoicePreferences, 'voiceURI'>; label: string }[] = [
+    { key: 'rate', label: 'Speaking rate' },
+    { key: 'pitch', label: 'Pitch' },
+    { key: 'volume', label: 'Volume' }
+  ];
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-white">
+      {/* Header */}
+      <header className="bg-slate-800 border-b border-cyan-500/30 p-6">
+        <div className="max-w-6xl mx-auto">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <Eye className="w-8 h-8 text-cyan-400" />
+              <h1 className="text-3xl font-bold text-cyan-400">BlindAssist Settings</h1>
+            </div>
+            <Link
+              to="/"
+              className="flex items-center text-cyan-300 hover:text-cyan-100"
+              aria-label="Back to BlindAssist home"
+            >
+              <ArrowLeft className="w-5 h-5 mr-2" />
+              Back
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto p-6">
+        <Card className="bg-slate-800 border-cyan-500/30 mb-8">
+          <CardHeader>
+            <CardTitle className="text-cyan-300 flex items-center space-x-2">
+              <Languages className="w-5 h-5" />
+              <span>Language</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Label htmlFor="locale-select" className="text-cyan-300">Language for commands, voice and dates</Label>
+            <Select value={language.locale} onValueChange={handleLocaleChange}>
+              <SelectTrigger
+                id="locale-select"
+                className="bg-slate-700 border-cyan-500/50 text-white"
+                aria-label="Select language"
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUPPORTED_LOCALES.map((option) => (
+                  <SelectItem key={option.code} value={option.code} lang={option.code}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-slate-400">
+              English commands keep working in every language. Replies are still in English, so they are read by an English voice, with your region's accent when your browser has one.
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-slate-800 border-cyan-500/30 mb-8">
+          <CardHeader>
+            <CardTitle className="text-cyan-300 flex items-center space-x-2">
+              <Mic className="w-5 h-5" />
+              <span>Speech Recognition</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Label htmlFor="engine-select" className="text-cyan-300">How your commands are recognized</Label>
+            <Select value={recognition.engine} onValueChange={handleEngineChange}>
+              <SelectTrigger
+                id="engine-select"
+                className="bg-slate-700 border-cyan-500/50 text-white"
+                aria-label="Select speech recognizer"
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ENGINE_OPTIONS.map((option) => (
+                  <SelectItem key={option.engine} value={option.engine}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-slate-400">
+              Automatic uses your browser's recognizer when it has one, which may send audio to an online service.
+              On this device keeps audio private and works offline; it downloads a speech model of about 40 MB the first time.
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-slate-800 border-cyan-500/30 mb-8">
+          <CardHeader>
+            <CardTitle className="text-cyan-300 flex items-center space-x-2">
+              <Globe className="w-5 h-5" />
+              <span>Web Search</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-8">
+            <div className="space-y-2">
+              <Label htmlFor="search-provider-select" className="text-cyan-300">Where searches are answered from</Label>
+              <Select value={search.provider} onValueChange={handleSearchProviderChange}>
+                <SelectTrigger
+                  id="search-provider-select"
+                  className="bg-slate-700 border-cyan-500/50 text-white"
+                  aria-label="Select search provider"
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SEARCH_PROVIDER_OPTIONS.map((option) => (
+                    <SelectItem key={option.provider} value={option.provider}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-slate-400">
+                The built-in results are a small set of sample pages about accessibility, useful when offline or for trying BlindAssist out.
+              </p>
+            </div>
+
+            {search.provider === 'searxng' && (
+              <div className="space-y-2">
+                <Label htmlFor="search-endpoint-input" className="text-cyan-300">SearXNG server address</Label>
+                <Input
+                  id="search-endpoint-input"
+                  type="url"
+                  value={searchEndpoint}
+                  placeholder="https://searx.example.org"
+                  onChange={(e) => setSearchEndpoint(e.target.value)}
+                  onBlur={saveSearchEndpoint}
+                  onKeyPress={(e) => {
+                    if (e.key === 'Enter') {
+                      saveSearchEndpoint();
+                    }
+                  }}
+                  className="bg-slate-700 border-cyan-500/50 text-white placeholder-slate-400 focus:border-cyan-400"
+                  aria-describedby="search-endpoint-help"
+                />
+                <p id="search-endpoint-help" className="text-sm text-slate-400">
+                  The server must have the JSON result format enabled and allow requests from this site.
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="bg-slate-800 border-cyan-500/30 mb-8">
+          <CardHeader>
+            <CardTitle className="text-cyan-300 flex items-center space-x-2">
+              <CloudSun className="w-5 h-5" />
+              <span>Weather</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-8">
+            <div className="space-y-2">
+              <Label htmlFor="weather-provider-select" className="text-cyan-300">Where forecasts come from</Label>
+              <Select value={weather.provider} onValueChange={handleWeatherProviderChange}>
+                <SelectTrigger
+                  id="weather-provider-select"
+                  className="bg-slate-700 border-cyan-500/50 text-white"
+                  aria-label="Select weather provider"
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEATHER_PROVIDER_OPTIONS.map((option) => (
+                    <SelectItem key={option.provider} value={option.provider}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-slate-400">
+                Weather for where you are uses your browser's location, which it asks permission for the first time.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="weather-units-select" className="text-cyan-300">Units</Label>
+              <Select value={weather.units} onValueChange={handleUnitsChange}>
+                <SelectTrigger
+                  id="weather-units-select"
+                  className="bg-slate-700 border-cyan-500/50 text-white"
+                  aria-label="Select temperature and wind speed units"
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {UNIT_OPTIONS.map((option) => (
+                    <SelectItem key={option.units} value={option.units}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-slate-800 border-cyan-500/30">
+          <CardHeader>
+            <CardTitle className="text-cyan-300 flex items-center space-x-2">
+              <SettingsIcon className="w-5 h-5" />
+              <span>Voice Output</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-8">
+            <div className="space-y-2">
+              <Label htmlFor="voice-select" className="text-cyan-300">Voice</Label>
+              <Select value={selectedVoice ?? DEFAULT_VOICE} onValueChange={handleVoiceChange}>
+                <SelectTrigger
+                  id="voice-select"
+                  className="bg-slate-700 border-cyan-500/50 text-white"
+                  aria-label="Select speaking voice"
+                >
+                  <SelectValue placeholder="System default" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_VOICE}>System default</SelectItem>
+                  {replyVoices.map((option) => (
+                    <SelectItem key={option.voiceURI} value={option.voiceURI}>
+                      {option.name} ({option.lang})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {replyVoices.length === 0 && (
+                <p className="text-sm text-slate-400">No additional English voices are available in this browser.</p>
+              )}
+              <p className="text-sm text-slate-400">Replies are in English, so only English voices are listed.</p>
+            </div>
+
+            {sliders.map(({ key, label }) => (
+              <div key={key} className="space-y-3">
+                <div className="flex justify-between">
+                  <Label htmlFor={`${key}-slider`} className="text-cyan-300">{label}</Label>
+                  <span className="text-slate-300">{voice[key].toFixed(2)}</span>
+                </div>
+                <Slider
+                  id={`${key}-slider`}
+                  value={[voice[key]]}
+                  min={VOICE_LIMITS[key].min}
+                  max={VOICE_LIMITS[key].max}
+                  step={VOICE_LIMITS[key].step}
+                  onValueChange={(values) => preferencesService.update('voice', { [key]: values[0] })}
+                  onValueCommit={handleSliderCommit(key, label)}
+                  aria-label={label}
+                />
+              </div>
+            ))}
+
+            <div className="flex space-x-2">
+              <Button
+                onClick={previewVoice}
+                className="bg-cyan-600 hover:bg-cyan-700"
+                aria-label="Preview voice settings"
+              >
+                <Play className="w-4 h-4 mr-2" />
+                Preview
+              </Button>
+              <Button
+                onClick={handleReset}
+                variant="outline"
+                className="border-cyan-500/50 text-cyan-300 hover:bg-cyan-600 hover:text-white"
+                aria-label="Reset voice settings to defaults"
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Reset to Defaults
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-slate-800 border-cyan-500/30 mt-8">
+          <CardHeader>
+            <CardTitle className="text-cyan-300 flex items-center space-x-2">
+              <Ear className="w-5 h-5" />
+              <span>Wake Word</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-8">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="wake-word-switch" className="text-cyan-300">
+                Only accept commands after the wake phrase
+              </Label>
+              <Switch
+                id="wake-word-switch"
+                checked={wakeWord.enabled}
+                onCheckedChange={handleWakeWordToggle}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="wake-phrase-input" className="text-cyan-300">Wake phrase</Label>
+              <Input
+                id="wake-phrase-input"
+                value={wakePhrase}
+                onChange={(e) => setWakePhrase(e.target.value)}
+                onBlur={saveWakePhrase}
+                onKeyPress={(e) => {
+                  if (e.key === 'Enter') {
+                    saveWakePhrase();
+                  }
+                }}
+                className="bg-slate-700 border-cyan-500/50 text-white placeholder-slate-400 focus:border-cyan-400"
+                aria-describedby="wake-phrase-help"
+              />
+              <p id="wake-phrase-help" className="text-sm text-slate-400">
+                Pick a phrase that is unlikely to come up in conversation or on TV.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="follow-up-select" className="text-cyan-300">After waking</Label>
+              <Select value={String(wakeWord.followUpSeconds)} onValueChange={handleFollowUpChange}>
+                <SelectTrigger
+                  id="follow-up-select"
+                  className="bg-slate-700 border-cyan-500/50 text-white"
+                  aria-label="How long to keep accepting commands after the wake phrase"
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FOLLOW_UP_OPTIONS.map((option) => (
+                    <SelectItem key={option.seconds} value={String(option.seconds)}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-slate-800 border-cyan-500/30 mt-8">
+          <CardHeader>
+            <CardTitle className="text-cyan-300 flex items-center space-x-2">
+              <Keyboard className="w-5 h-5" />
+              <span>Keyboard Shortcuts</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-8">
+            <div className="space-y-2">
+              <Label htmlFor="push-to-talk-select" className="text-cyan-300">Hold to talk</Label>
+              <Select value={shortcuts.pushToTalkKey ?? NO_PUSH_TO_TALK} onValueChange={handlePushToTalkChange}>
+                <SelectTrigger
+                  id="push-to-talk-select"
+                  className="bg-slate-700 border-cyan-500/50 text-white"
+                  aria-label="Key to hold while speaking a command"
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PUSH_TO_TALK_KEYS.map((option) => (
+                    <SelectItem key={option.code} value={option.code}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={NO_PUSH_TO_TALK}>Off</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-slate-400">
+                Commands spoken while the key is held skip the wake phrase. Space only works when no button or text field has focus.
+              </p>
+            </div>
+
+            <ul className="space-y-2 text-slate-300" aria-label="Keyboard shortcuts on the home page">
+              {shortcutService.getShortcuts().map((shortcut) => (
+                <li key={shortcut.keys} className="flex justify-between">
+                  <kbd className="text-cyan-300 font-mono">{shortcut.keys}</kbd>
+                  <span>{shortcut.description}</span>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+
+        <NewsFeedEditor onSpeech={(text, options) => speechOutput.speak(text, options)} />
+
+        <CustomCommandEditor onSpeech={(text, options) => speechOutput.speak(text, options)} />
+      </main>
+    </div>
+  );
+};
+
+export default Settings;
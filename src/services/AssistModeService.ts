@@ -0,0 +1,109 @@
+// Assist Mode Service for BlindAssist - Active assistance mode and cross-mode actions
+// Voice commands can switch modes and hand work to a mode that is not on screen yet
+
+export type AssistMode = 'voice' | 'web' | 'image' | 'text';
+
+export type ModeAction =
+  | { mode: 'web'; type: 'search'; query: string }
+  | { mode: 'image'; type: 'describe' }
+  | { mode: 'text'; type: 'analyze' }
+  | { mode: 'text'; type: 'readAloud' }
+  | { mode: 'text'; type: 'dictate' };
+
+export type ModeActionFor<M extends AssistMode> = Extract<ModeAction, { mode: M }>;
+
+export const MODE_LABELS: Record<AssistMode, string> = {
+  voice: 'Voice Control',
+  web: 'Web Navigation',
+  image: 'Image Description',
+  text: 'Text Analysis'
+};
+
+export const MODE_ANNOUNCEMENTS: Record<AssistMode, string> = {
+  voice: 'Voice control mode activated. Speak your commands.',
+  web: 'Web navigation mode activated. I can help you browse websites.',
+  image: 'Image description mode activated. Upload an image for detailed description.',
+  text: 'Text analysis mode activated. Paste or type content for analysis.'
+};
+
+// Spoken names for each mode, e.g. "switch to pictures" or "go to web navigation"
+const MODE_NAMES: Record<AssistMode, string[]> = {
+  voice: ['voice', 'voice control', 'voice commands', 'commands'],
+  web: ['web', 'web navigation', 'web search', 'browser', 'browsing', 'internet'],
+  image: ['image', 'images', 'image description', 'picture', 'pictures', 'photo', 'photos'],
+  text: ['text', 'text analysis', 'reading', 'document', 'documents']
+};
+
+/** Resolve a spoken mode name, ignoring a trailing "mode". */
+export function parseModeName(spoken: string): AssistMode | null {
+  const name = spoken.trim().toLowerCase().replace(/\s+mode$/, '');
+  const match = (Object.keys(MODE_NAMES) as AssistMode[]).find(mode => MODE_NAMES[mode].includes(name));
+  return match ?? null;
+}
+
+type ModeListener = (mode: AssistMode) => void;
+type ActionHandler = (action: ModeAction) => void;
+
+class AssistModeService {
+  private static instance: AssistModeService;
+  private mode: AssistMode = 'voice';
+  private listeners = new Set<ModeListener>();
+  private handlers = new Map<AssistMode, ActionHandler>();
+  // Actions waiting for their mode's component to mount
+  private pending = new Map<AssistMode, ModeAction>();
+
+  static getInstance(): AssistModeService {
+    if (!AssistModeService.instance) {
+      AssistModeService.instance = new AssistModeService();
+    }
+    return AssistModeService.instance;
+  }
+
+  getMode(): AssistMode {
+    return this.mode;
+  }
+
+  setMode(mode: AssistMode): void {
+    if (this.mode === mode) {
+      return;
+    }
+    this.mode = mode;
+    this.listeners.forEach(listener => listener(mode));
+  }
+
+  /** Switch to the action's mode and run it there, now or as soon as that mode mounts. */
+  dispatch(action: ModeAction): void {
+    this.setMode(action.mode);
+    const handler = this.handlers.get(action.mode);
+    if (handler) {
+      handler(action);
+    } else {
+      this.pending.set(action.mode, action);
+    }
+  }
+
+  /** Register the component that carries out a mode's actions; receives any pending one at once. */
+  handleActions<M extends AssistMode>(mode: M, handler: (action: ModeActionFor<M>) => void): () => void {
+    const wrapped = handler as ActionHandler;
+    this.handlers.set(mode, wrapped);
+    const waiting = this.pending.get(mode);
+    if (waiting) {
+      this.pending.delete(mode);
+      wrapped(waiting);
+    }
+    return () => {
+      if (this.handlers.get(mode) === wrapped) {
+        this.handlers.delete(mode);
+      }
+    };
+  }
+
+  subscribe(listener: ModeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export default AssistModeService;
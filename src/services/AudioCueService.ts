@@ -0,0 +1,91 @@
+// Audio Cue Service for BlindAssist - Short earcons for state changes
+// Tones confirm what happened without waiting for a full spoken sentence
+
+export type AudioCue = 'arm' | 'disarm' | 'error' | 'timer';
+
+interface ToneStep {
+  // 0 is a pause
+  frequency: number;
+  duration: number;
+}
+
+const CUES: Record<AudioCue, ToneStep[]> = {
+  // Rising pair: ready to hear a command
+  arm: [
+    { frequency: 660, duration: 0.09 },
+    { frequency: 880, duration: 0.12 }
+  ],
+  // Falling pair: stopped accepting commands
+  disarm: [
+    { frequency: 880, duration: 0.09 },
+    { frequency: 550, duration: 0.12 }
+  ],
+  error: [
+    { frequency: 220, duration: 0.25 }
+  ],
+  // Three quick chimes, like a kitchen timer, before the spoken alert
+  timer: [
+    { frequency: 1046, duration: 0.15 },
+    { frequency: 0, duration: 0.1 },
+    { frequency: 1046, duration: 0.15 },
+    { frequency: 0, duration: 0.1 },
+    { frequency: 1046, duration: 0.3 }
+  ]
+};
+
+const CUE_VOLUME = 0.15;
+
+class AudioCueService {
+  private static instance: AudioCueService;
+  private context: AudioContext | null = null;
+
+  static getInstance(): AudioCueService {
+    if (!AudioCueService.instance) {
+      AudioCueService.instance = new AudioCueService();
+    }
+    return AudioCueService.instance;
+  }
+
+  play(cue: AudioCue): void {
+    const context = this.getContext();
+    if (!context) {
+      return;
+    }
+
+    let startAt = context.currentTime;
+    CUES[cue].forEach(({ frequency, duration }) => {
+      if (frequency === 0) {
+        startAt += duration;
+        return;
+      }
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.type = 'sine';
+      oscillator.frequency.value = frequency;
+      // Short fade out avoids an audible click at the end of each tone
+      gain.gain.setValueAtTime(CUE_VOLUME, startAt);
+      gain.gain.exponentialRampToValueAtTime(0.001, startAt + duration);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(startAt);
+      oscillator.stop(startAt + duration);
+      startAt += duration;
+    });
+  }
+
+  private getContext(): AudioContext | null {
+    if (this.context) {
+      if (this.context.state === 'suspended') {
+        this.context.resume();
+      }
+      return this.context;
+    }
+    const AudioContextClass = window.AudioContext || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!AudioContextClass) {
+      return null;
+    }
+    this.context = new AudioContextClass();
+    return this.context;
+  }
+}
+
+export default AudioCueService;
@@ -0,0 +1,88 @@
+// Browser Recognition Backend for BlindAssist - The Web Speech API recognizer
+// Chrome and Edge send audio to their vendor's servers; Safari recognizes on the device
+
+import type { RecognitionBackend, RecognitionCallbacks } from './RecognitionBackend';
+
+type RecognitionConstructor = new () => SpeechRecognition;
+
+const MAX_ALTERNATIVES = 3;
+
+class BrowserRecognitionBackend implements RecognitionBackend {
+  readonly engine = 'browser' as const;
+  private Recognition: RecognitionConstructor | undefined;
+  private recognition: SpeechRecognition | null = null;
+
+  constructor() {
+    const windowWithSpeech = window as unknown as {
+      SpeechRecognition?: RecognitionConstructor;
+      webkitSpeechRecognition?: RecognitionConstructor;
+    };
+    this.Recognition = windowWithSpeech.SpeechRecognition || windowWithSpeech.webkitSpeechRecognition;
+  }
+
+  isSupported(): boolean {
+    return this.Recognition !== undefined;
+  }
+
+  async start(locale: string, callbacks: RecognitionCallbacks): Promise<void> {
+    if (!this.Recognition) {
+      throw new Error('Speech recognition is not available in this browser');
+    }
+    const recognition = new this.Recognition();
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    recognition.maxAlternatives = MAX_ALTERNATIVES;
+    recognition.lang = locale;
+
+    recognition.onresult = (event: SpeechRecognitionEvent) => {
+      const finals: SpeechRecognitionResult[] = [];
+      let interim = '';
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        if (event.results[i].isFinal) {
+          finals.push(event.results[i]);
+        } else {
+          interim += event.results[i][0].transcript;
+        }
+      }
+      callbacks.onInterim(interim);
+      if (finals.length === 1) {
+        callbacks.onResult(Array.from({ length: finals[0].length }, (_, i) => finals[0][i]));
+      } else if (finals.length > 1) {
+        // Several phrases finished together: only their best guesses can be joined
+        callbacks.onResult([{
+          transcript: finals.map(result => result[0].transcript).join(''),
+          confidence: Math.min(...finals.map(result => result[0].confidence))
+        }]);
+      }
+    };
+
+    recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
+      console.error('Speech recognition error:', event.error);
+      callbacks.onError(event.error);
+    };
+
+    recognition.onend = () => {
+      if (this.recognition === recognition) {
+        this.recognition = null;
+        callbacks.onEnd();
+      }
+    };
+
+    this.recognition = recognition;
+    recognition.start();
+  }
+
+  finish(): void {
+    // The recognizer delivers its last result, then ends as usual
+    this.recognition?.stop();
+  }
+
+  stop(): void {
+    const recognition = this.recognition;
+    // Cleared first so the end event of a requested stop is not reported
+    this.recognition = null;
+    recognition?.stop();
+  }
+}
+
+export default BrowserRecognitionBackend;
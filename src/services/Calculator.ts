@@ -0,0 +1,164 @@
+// Calculator for BlindAssist - Spoken arithmetic worked out on the device
+// "15 percent of 240", "12 times 7 plus 3" and "square root of 81" are read into an expression and evaluated
+
+import { NUMBER_PATTERN, parseSpokenNumber } from './SpokenNumbers';
+
+type Operator = '+' | '-' | '*' | '/' | '^' | 'percentOf' | 'percent' | 'squared' | 'cubed' | 'sqrt';
+type Token = { kind: 'number'; value: number } | { kind: 'operator'; operator: Operator };
+
+export type CalculationResult = { ok: true; value: number } | { ok: false; reason: string };
+
+// Longest phrases first, so "percent of" is not read as "percent" followed by "of"
+const OPERATOR_WORDS: [string, Operator][] = [
+  ['to the power of', '^'],
+  ['square root of', 'sqrt'],
+  ['multiplied by', '*'],
+  ['divided by', '/'],
+  ['percent of', 'percentOf'],
+  ['plus', '+'],
+  ['minus', '-'],
+  ['negative', '-'],
+  ['times', '*'],
+  ['x', '*'],
+  ['over', '/'],
+  ['percent', 'percent'],
+  ['squared', 'squared'],
+  ['cubed', 'cubed']
+];
+
+const BINARY = '(?:to the power of|multiplied by|divided by|percent of|plus|minus|times|x|over)';
+const PREFIX = '(?:(?:square root of|minus|negative) )*';
+const SUFFIX = '(?: (?:squared|cubed|percent))*';
+const OPERAND = `${PREFIX}(?:${NUMBER_PATTERN})${SUFFIX}`;
+
+/** Regex source for {slot:expression}: numbers joined by at least one spoken operator. */
+export const EXPRESSION_PATTERN = [
+  `${OPERAND}(?: ${BINARY} ${OPERAND})+`,
+  `(?:square root of|negative) ${OPERAND}`,
+  `(?:${NUMBER_PATTERN})(?: (?:squared|cubed))+`
+].join('|');
+
+function tokenize(text: string): Token[] | null {
+  const words = text.toLowerCase().split(/\s+/).filter(Boolean);
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < words.length) {
+    const operator = OPERATOR_WORDS.find(([phrase]) => {
+      const length = phrase.split(' ').length;
+      return words.slice(i, i + length).join(' ') === phrase;
+    });
+    if (operator) {
+      tokens.push({ kind: 'operator', operator: operator[1] });
+      i += operator[0].split(' ').length;
+      continue;
+    }
+    // The longest run of words that still reads as one number: "one hundred and five"
+    let end = words.length;
+    let value: number | null = null;
+    for (; end > i; end--) {
+      value = parseSpokenNumber(words.slice(i, end).join(' '));
+      if (value !== null) {
+        break;
+      }
+    }
+    if (value === null) {
+      return null;
+    }
+    tokens.push({ kind: 'number', value });
+    i = end;
+  }
+  return tokens;
+}
+
+// Recursive descent with the usual precedence: powers, then products, then sums
+class ExpressionParser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): number | null {
+    const value = this.sum();
+    return value !== null && this.position === this.tokens.length ? value : null;
+  }
+
+  private accept(...operators: Operator[]): Operator | null {
+    const token = this.tokens[this.position];
+    if (token?.kind === 'operator' && operators.includes(token.operator)) {
+      this.position++;
+      return token.operator;
+    }
+    return null;
+  }
+
+  private sum(): number | null {
+    let value = this.product();
+    let operator: Operator | null;
+    while (value !== null && (operator = this.accept('+', '-'))) {
+      const right = this.product();
+      value = right === null ? null : operator === '+' ? value + right : value - right;
+    }
+    return value;
+  }
+
+  private product(): number | null {
+    let value = this.power();
+    let operator: Operator | null;
+    while (value !== null && (operator = this.accept('*', '/', 'percentOf'))) {
+      const right = this.power();
+      if (right === null) {
+        return null;
+      }
+      value = operator === '*' ? value * right : operator === '/' ? value / right : (value / 100) * right;
+    }
+    return value;
+  }
+
+  private power(): number | null {
+    const base = this.unary();
+    if (base === null || !this.accept('^')) {
+      return base;
+    }
+    // Right associative: 2 to the power of 3 to the power of 2 is 2 ^ 9
+    const exponent = this.power();
+    return exponent === null ? null : Math.pow(base, exponent);
+  }
+
+  private unary(): number | null {
+    const operator = this.accept('-', 'sqrt');
+    if (operator) {
+      const value = this.unary();
+      return value === null ? null : operator === '-' ? -value : Math.sqrt(value);
+    }
+    return this.postfix();
+  }
+
+  private postfix(): number | null {
+    const token = this.tokens[this.position];
+    if (token?.kind !== 'number') {
+      return null;
+    }
+    this.position++;
+    let value = token.value;
+    let operator: Operator | null;
+    while ((operator = this.accept('squared', 'cubed', 'percent'))) {
+      value = operator === 'squared' ? value ** 2 : operator === 'cubed' ? value ** 3 : value / 100;
+    }
+    return value;
+  }
+}
+
+/** Work out a spoken expression such as "15 percent of 240". */
+export function calculate(expression: string): CalculationResult {
+  const tokens = tokenize(expression);
+  const value = tokens ? new ExpressionParser(tokens).parse() : null;
+  if (value === null) {
+    return { ok: false, reason: `I could not work out ${expression}. Try something like "what is 12 times 7".` };
+  }
+  if (Number.isNaN(value)) {
+    return { ok: false, reason: 'That has no real answer.' };
+  }
+  if (!Number.isFinite(value)) {
+    return { ok: false, reason: 'That has no answer, because it divides by zero.' };
+  }
+  return { ok: true, value };
+}
@@ -0,0 +1,44 @@
+// Connectivity Service for BlindAssist - Whether the device is online
+// Follows the browser's online and offline events so answers can fall back to saved responses
+
+export type ConnectivityListener = (online: boolean) => void;
+
+class ConnectivityService {
+  private static instance: ConnectivityService;
+  private online = navigator.onLine;
+  private listeners = new Set<ConnectivityListener>();
+
+  private constructor() {
+    window.addEventListener('online', () => this.set(true));
+    window.addEventListener('offline', () => this.set(false));
+  }
+
+  static getInstance(): ConnectivityService {
+    if (!ConnectivityService.instance) {
+      ConnectivityService.instance = new ConnectivityService();
+    }
+    return ConnectivityService.instance;
+  }
+
+  /** False only when the browser knows there is no network; being online does not mean a service is reachable. */
+  isOnline(): boolean {
+    return this.online;
+  }
+
+  subscribe(listener: ConnectivityListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private set(online: boolean): void {
+    if (online === this.online) {
+      return;
+    }
+    this.online = online;
+    this.listeners.forEach(listener => listener(online));
+  }
+}
+
+export default ConnectivityService;
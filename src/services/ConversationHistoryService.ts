@@ -0,0 +1,85 @@
+// Conversation History Service for BlindAssist - Chronological log of commands and responses
+// Keeps every turn of the session so nothing is lost when a new response arrives
+
+export type HistoryRole = 'user' | 'assistant';
+
+export interface HistoryEntry {
+  id: number;
+  role: HistoryRole;
+  text: string;
+  timestamp: string;
+}
+
+export type HistoryListener = (entries: HistoryEntry[]) => void;
+
+const MAX_ENTRIES = 200;
+
+class ConversationHistoryService {
+  private static instance: ConversationHistoryService;
+  private entries: HistoryEntry[] = [];
+  private listeners = new Set<HistoryListener>();
+  private nextId = 1;
+
+  static getInstance(): ConversationHistoryService {
+    if (!ConversationHistoryService.instance) {
+      ConversationHistoryService.instance = new ConversationHistoryService();
+    }
+    return ConversationHistoryService.instance;
+  }
+
+  addUserCommand(text: string): HistoryEntry {
+    return this.add('user', text);
+  }
+
+  addResponse(text: string): HistoryEntry {
+    return this.add('assistant', text);
+  }
+
+  getEntries(): HistoryEntry[] {
+    return this.entries;
+  }
+
+  /** Most recent assistant responses first. */
+  getResponses(): HistoryEntry[] {
+    return this.entries.filter(entry => entry.role === 'assistant').reverse();
+  }
+
+  search(query: string): HistoryEntry[] {
+    const needle = query.trim().toLowerCase();
+    if (!needle) {
+      return this.entries;
+    }
+    return this.entries.filter(entry => entry.text.toLowerCase().includes(needle));
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.notify();
+  }
+
+  subscribe(listener: HistoryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private add(role: HistoryRole, text: string): HistoryEntry {
+    const entry: HistoryEntry = {
+      id: this.nextId++,
+      role,
+      text,
+      timestamp: new Date().toISOString()
+    };
+    // Replace rather than mutate so subscribers can compare snapshots
+    this.entries = [...this.entries, entry].slice(-MAX_ENTRIES);
+    this.notify();
+    return entry;
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.entries));
+  }
+}
+
+export default ConversationHistoryService;
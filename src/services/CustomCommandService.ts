@@ -0,0 +1,161 @@
+// Custom Command Service for BlindAssist - User-defined phrases that run a list of actions
+// Saved in localStorage and registered with the intent parser like built-in commands
+
+import IntentRegistry, { normalizeUtterance } from './IntentRegistry';
+import { AssistMode, MODE_LABELS } from './AssistModeService';
+
+export type MacroStep =
+  | { action: 'date' }
+  | { action: 'time' }
+  | { action: 'weather' }
+  | { action: 'headlines' }
+  | { action: 'search'; query: string }
+  | { action: 'switchMode'; mode: AssistMode };
+
+export type MacroAction = MacroStep['action'];
+
+export interface CustomCommand {
+  id: string;
+  // Normalized the same way as spoken input, so it can be used directly as a pattern
+  phrase: string;
+  steps: MacroStep[];
+}
+
+export type CustomCommandListener = (commands: CustomCommand[]) => void;
+
+export type SaveResult = { ok: true; command: CustomCommand } | { ok: false; reason: string };
+
+export const MACRO_ACTION_LABELS: Record<MacroAction, string> = {
+  date: 'Say the date',
+  time: 'Say the time',
+  weather: 'Weather report',
+  headlines: 'Today\'s headlines',
+  search: 'Search for a topic',
+  switchMode: 'Switch mode'
+};
+
+export function describeStep(step: MacroStep): string {
+  switch (step.action) {
+    case 'search':
+      return `Search for "${step.query}"`;
+    case 'switchMode':
+      return `Switch to ${MODE_LABELS[step.mode]}`;
+    default:
+      return MACRO_ACTION_LABELS[step.action];
+  }
+}
+
+const STORAGE_KEY = 'blindassist.customCommands';
+
+// Above the built-in phrasings so a shortcut wins, below "stop" and the wake word
+const MACRO_PRIORITY = 80;
+
+class CustomCommandService {
+  private static instance: CustomCommandService;
+  private commands: CustomCommand[];
+  private listeners = new Set<CustomCommandListener>();
+  private registry = IntentRegistry.getInstance();
+
+  private constructor() {
+    this.commands = this.load();
+    this.registerPatterns();
+  }
+
+  static getInstance(): CustomCommandService {
+    if (!CustomCommandService.instance) {
+      CustomCommandService.instance = new CustomCommandService();
+    }
+    return CustomCommandService.instance;
+  }
+
+  getCommands(): CustomCommand[] {
+    return this.commands;
+  }
+
+  /** The command whose phrase produced a parsed `macro` intent. */
+  findByPhrase(phrase: string): CustomCommand | undefined {
+    return this.commands.find(command => command.phrase === phrase);
+  }
+
+  /** Add a command, or replace the one with the same id. */
+  save(phrase: string, steps: MacroStep[], id?: string): SaveResult {
+    const normalized = normalizeUtterance(phrase);
+    if (!normalized) {
+      return { ok: false, reason: 'Please enter a phrase to say.' };
+    }
+    if (steps.length === 0) {
+      return { ok: false, reason: 'Add at least one action.' };
+    }
+    if (this.commands.some(command => command.phrase === normalized && command.id !== id)) {
+      return { ok: false, reason: `You already have a command for "${normalized}".` };
+    }
+    const builtIn = this.registry.parse(normalized);
+    if (builtIn && builtIn.name !== 'macro') {
+      const description = this.registry.getDefinition(builtIn.name)?.description ?? builtIn.name;
+      return { ok: false, reason: `"${normalized}" is already a built-in command: ${description}.` };
+    }
+
+    const command: CustomCommand = {
+      id: id ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      phrase: normalized,
+      steps
+    };
+    const exists = this.commands.some(existing => existing.id === command.id);
+    this.set(exists
+      ? this.commands.map(existing => (existing.id === command.id ? command : existing))
+      : [...this.commands, command]);
+    return { ok: true, command };
+  }
+
+  remove(id: string): void {
+    this.set(this.commands.filter(command => command.id !== id));
+  }
+
+  subscribe(listener: CustomCommandListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private set(commands: CustomCommand[]): void {
+    this.commands = commands;
+    this.persist();
+    this.registerPatterns();
+    this.listeners.forEach(listener => listener(commands));
+  }
+
+  private registerPatterns(): void {
+    if (this.commands.length === 0) {
+      this.registry.unregister('macro');
+      return;
+    }
+    this.registry.register({
+      name: 'macro',
+      patterns: this.commands.map(command => command.phrase),
+      priority: MACRO_PRIORITY,
+      examples: this.commands.map(command => command.phrase),
+      description: 'Your custom commands'
+    });
+  }
+
+  private load(): CustomCommand[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? (JSON.parse(stored) as CustomCommand[]) : [];
+    } catch (error) {
+      console.error('Custom commands load error:', error);
+      return [];
+    }
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.commands));
+    } catch (error) {
+      console.error('Custom commands save error:', error);
+    }
+  }
+}
+
+export default CustomCommandService;
@@ -0,0 +1,118 @@
+// Dialog Context Service for BlindAssist - Remembers the previous turn for follow-ups
+// Lets "yes", "read the second one" or "open it" resolve against what was just said
+
+import { NewsItem, SearchResult } from './SearchService';
+
+export type DialogTopic =
+  | { kind: 'search'; query: string; results: SearchResult[] }
+  | { kind: 'headlines'; headlines: NewsItem[] };
+
+export type PendingQuestion =
+  // "Would you like me to read any specific result in detail?"
+  | { kind: 'readResult' }
+  // "Would you like me to read any of these stories in more detail?"
+  | { kind: 'headlineDetail' }
+  // "Would you like me to search for more recent updates on this topic?"
+  | { kind: 'searchUpdates'; query: string }
+  // "Did you mean ...?" after an uncertain recognition
+  | { kind: 'confirmCommand'; command: string };
+
+export interface DialogState {
+  topic: DialogTopic | null;
+  // Zero-based index of the item the user last heard about in detail
+  focusIndex: number | null;
+  pending: PendingQuestion | null;
+  updatedAt: number;
+}
+
+export interface DialogItem {
+  index: number;
+  title: string;
+  url: string;
+}
+
+// Follow-ups that arrive after this long are treated as a fresh conversation
+const CONTEXT_TTL_MS = 10 * 60 * 1000;
+
+const EMPTY_STATE: DialogState = {
+  topic: null,
+  focusIndex: null,
+  pending: null,
+  updatedAt: 0
+};
+
+class DialogContextService {
+  private static instance: DialogContextService;
+  private state: DialogState = EMPTY_STATE;
+
+  static getInstance(): DialogContextService {
+    if (!DialogContextService.instance) {
+      DialogContextService.instance = new DialogContextService();
+    }
+    return DialogContextService.instance;
+  }
+
+  getState(): DialogState {
+    if (Date.now() - this.state.updatedAt > CONTEXT_TTL_MS) {
+      this.state = EMPTY_STATE;
+    }
+    return this.state;
+  }
+
+  setSearchResults(query: string, results: SearchResult[]): void {
+    this.update({ topic: { kind: 'search', query, results }, focusIndex: null, pending: { kind: 'readResult' } });
+  }
+
+  setHeadlines(headlines: NewsItem[]): void {
+    this.update({ topic: { kind: 'headlines', headlines }, focusIndex: null, pending: { kind: 'headlineDetail' } });
+  }
+
+  setFocus(index: number): void {
+    this.update({ focusIndex: index });
+  }
+
+  ask(pending: PendingQuestion): void {
+    this.update({ pending });
+  }
+
+  /** Returns the pending question, if any, and forgets it. */
+  takePending(): PendingQuestion | null {
+    const { pending } = this.getState();
+    if (pending) {
+      this.update({ pending: null });
+    }
+    return pending;
+  }
+
+  getItemCount(): number {
+    const { topic } = this.getState();
+    if (!topic) {
+      return 0;
+    }
+    return topic.kind === 'search' ? topic.results.length : topic.headlines.length;
+  }
+
+  /** The item at a zero-based index of the current topic, normalized for both result kinds. */
+  getItem(index: number): DialogItem | null {
+    const { topic } = this.getState();
+    if (!topic || index < 0 || index >= this.getItemCount()) {
+      return null;
+    }
+    if (topic.kind === 'search') {
+      const result = topic.results[index];
+      return { index, title: result.title, url: result.url };
+    }
+    const headline = topic.headlines[index];
+    return { index, title: headline.headline, url: headline.url };
+  }
+
+  clear(): void {
+    this.state = EMPTY_STATE;
+  }
+
+  private update(changes: Partial<DialogState>): void {
+    this.state = { ...this.getState(), ...changes, updatedAt: Date.now() };
+  }
+}
+
+export default DialogContextService;
@@ -0,0 +1,244 @@
+// Dictation Service for BlindAssist - Compose text by voice, with spoken punctuation and editing
+// While dictation is on, everything recognized is written into the text instead of run as a command
+
+import SpeechRecognitionService from './SpeechRecognitionService';
+import { splitIntoSentences } from './SegmentedReaderService';
+import type { SpeechOptions } from './SpeechOutputService';
+
+export interface DictationState {
+  active: boolean;
+  text: string;
+  // Words still being spoken, shown after the text until they are final
+  interim: string;
+  canUndo: boolean;
+}
+
+export type DictationListener = (state: DictationState) => void;
+export type DictationAnnouncer = (text: string, options?: SpeechOptions) => void;
+
+type EditCommand = 'deleteWord' | 'undo' | 'readSentence' | 'readAll' | 'stop';
+
+// Whole utterances that edit the text instead of being written into it
+const EDIT_COMMANDS: Record<EditCommand, string[]> = {
+  deleteWord: ['delete last word', 'delete the last word', 'delete that word', 'scratch that word'],
+  undo: ['undo', 'undo that', 'scratch that'],
+  readSentence: ['read back', 'read it back', 'read back the last sentence', 'read back last sentence', 'read the last sentence'],
+  readAll: ['read back everything', 'read it all back', 'read back all', 'read everything back'],
+  stop: ['stop dictation', 'end dictation', 'stop dictating', 'finish dictation']
+};
+
+// Spoken punctuation, longest phrases first so "new paragraph" wins over a lone "new"
+const PUNCTUATION: [string[], string][] = [
+  [['new', 'paragraph'], '\n\n'],
+  [['new', 'line'], '\n'],
+  [['question', 'mark'], '?'],
+  [['exclamation', 'mark'], '!'],
+  [['exclamation', 'point'], '!'],
+  [['full', 'stop'], '.'],
+  [['period'], '.'],
+  [['comma'], ','],
+  [['colon'], ':'],
+  [['semicolon'], ';']
+];
+
+// Our own announcements heard back by the microphone must not be written down
+const ECHO_WINDOW_MS = 6000;
+// Shorter phrases are often things the user really said, like "yes" or "thank you"
+const ECHO_MIN_WORDS = 3;
+const ECHO_NOTICE = 'Not written, that sounded like my own voice.';
+const UNDO_LIMIT = 50;
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\p{M}\s']/gu, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function startsSentence(text: string): boolean {
+  return /(^|[.!?]\s*|\n\s*)$/.test(text);
+}
+
+/** Append a spoken phrase to the text, turning punctuation words into marks. */
+export function appendDictation(text: string, spoken: string): string {
+  const words = spoken.trim().split(/\s+/).filter(Boolean);
+  let result = text;
+  for (let i = 0; i < words.length; i++) {
+    const mark = PUNCTUATION.find(([phrase]) =>
+      phrase.every((word, offset) => normalize(words[i + offset] ?? '') === word));
+    if (mark) {
+      const [phrase, symbol] = mark;
+      result = result.replace(/[ \t]+$/, '') + symbol;
+      i += phrase.length - 1;
+      continue;
+    }
+    const word = startsSentence(result) ? words[i].charAt(0).toUpperCase() + words[i].slice(1) : words[i];
+    result += result && !result.endsWith('\n') ? ` ${word}` : word;
+  }
+  return result;
+}
+
+class DictationService {
+  private static instance: DictationService;
+  private recognition = SpeechRecognitionService.getInstance();
+  private listeners = new Set<DictationListener>();
+  private undoStack: string[] = [];
+  private state: DictationState = { active: false, text: '', interim: '', canUndo: false };
+  private announce: DictationAnnouncer = () => {};
+  // Listening was started for dictation, so it stops with it
+  private startedListening = false;
+  private lastAnnouncement = '';
+  private lastAnnouncedAt = 0;
+
+  static getInstance(): DictationService {
+    if (!DictationService.instance) {
+      DictationService.instance = new DictationService();
+    }
+    return DictationService.instance;
+  }
+
+  getState(): DictationState {
+    return this.state;
+  }
+
+  /** Send everything recognized into the text, starting the microphone if needed. */
+  async start(announce: DictationAnnouncer): Promise<boolean> {
+    if (this.state.active) {
+      return true;
+    }
+    if (!this.recognition.getState().supported) {
+      return false;
+    }
+    this.announce = announce;
+    this.recognition.setDictationHandler({
+      onInterim: transcript => this.setState({ interim: transcript }),
+      onFinal: transcript => this.handleFinal(transcript)
+    });
+    this.setState({ active: true, interim: '' });
+
+    const { listening, preparing } = this.recognition.getState();
+    if (!listening && !preparing) {
+      this.startedListening = true;
+      if (!await this.recognition.start()) {
+        this.stop(false);
+        return false;
+      }
+    }
+    this.say('Dictation started. Speak your text. Say "stop dictation" when you are done.');
+    return true;
+  }
+
+  stop(announce = true): void {
+    if (!this.state.active) {
+      return;
+    }
+    this.recognition.setDictationHandler(null);
+    if (this.startedListening) {
+      this.recognition.stop();
+      this.startedListening = false;
+    }
+    this.setState({ active: false, interim: '' });
+    if (announce) {
+      const words = this.state.text.trim() ? this.state.text.trim().split(/\s+/).length : 0;
+      this.say(`Dictation stopped. The text has ${words} word${words === 1 ? '' : 's'}.`);
+    }
+  }
+
+  /** Typing replaces the text directly and is not undone by "undo". */
+  setText(text: string): void {
+    this.setState({ text });
+  }
+
+  subscribe(listener: DictationListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private handleFinal(transcript: string): void {
+    this.setState({ interim: '' });
+    const spoken = normalize(transcript);
+    if (!spoken) {
+      return;
+    }
+
+    const command = (Object.keys(EDIT_COMMANDS) as EditCommand[])
+      .find(name => EDIT_COMMANDS[name].includes(spoken));
+    // Commands must match exactly, so only dictated text can be an echo
+    if (!command && this.isEcho(spoken)) {
+      // The notice can echo too; skipping that quietly keeps the two from looping
+      if (this.lastAnnouncement !== normalize(ECHO_NOTICE)) {
+        this.say(ECHO_NOTICE);
+      }
+      return;
+    }
+    switch (command) {
+      case 'deleteWord':
+        this.deleteLastWord();
+        break;
+      case 'undo':
+        this.undo();
+        break;
+      case 'readSentence': {
+        const sentences = splitIntoSentences(this.state.text);
+        this.say(sentences.length > 0 ? sentences[sentences.length - 1] : 'Nothing has been written yet.');
+        break;
+      }
+      case 'readAll':
+        this.say(this.state.text.trim() || 'Nothing has been written yet.');
+        break;
+      case 'stop':
+        this.stop();
+        break;
+      default:
+        this.edit(appendDictation(this.state.text, transcript));
+    }
+  }
+
+  private deleteLastWord(): void {
+    const match = this.state.text.match(/\s*(\S+)\s*$/);
+    if (!match) {
+      this.say('There is nothing to delete.');
+      return;
+    }
+    this.edit(this.state.text.slice(0, match.index));
+    this.say(`Deleted "${match[1]}".`);
+  }
+
+  private undo(): void {
+    const previous = this.undoStack.pop();
+    if (previous === undefined) {
+      this.say('There is nothing to undo.');
+      return;
+    }
+    this.setState({ text: previous, canUndo: this.undoStack.length > 0 });
+    this.say('Undone.');
+  }
+
+  private edit(text: string): void {
+    this.undoStack = [...this.undoStack, this.state.text].slice(-UNDO_LIMIT);
+    this.setState({ text, canUndo: true });
+  }
+
+  private say(text: string): void {
+    this.lastAnnouncement = normalize(text);
+    this.lastAnnouncedAt = Date.now();
+    this.announce(text, { interrupt: true });
+  }
+
+  /** An echo is the whole announcement, or a run of whole words from it long enough not to be a coincidence. */
+  private isEcho(spoken: string): boolean {
+    if (Date.now() - this.lastAnnouncedAt >= ECHO_WINDOW_MS) {
+      return false;
+    }
+    if (spoken === this.lastAnnouncement) {
+      return true;
+    }
+    return spoken.split(' ').length >= ECHO_MIN_WORDS && ` ${this.lastAnnouncement} `.includes(` ${spoken} `);
+  }
+
+  private setState(changes: Partial<DictationState>): void {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach(listener => listener(this.state));
+  }
+}
+
+export default DictationService;
@@ -0,0 +1,165 @@
+// Feed Parser for BlindAssist - RSS, Atom and JSON Feed documents read into one entry shape
+// Summaries arrive as HTML in most feeds and are reduced to plain text for speech
+
+export interface FeedEntry {
+  // The feed's own identifier for the entry, or its link
+  id: string;
+  title: string;
+  summary: string;
+  url: string;
+  // ISO date; empty when the feed does not say
+  publishedAt: string;
+  categories: string[];
+}
+
+export interface ParsedFeed {
+  title: string;
+  entries: FeedEntry[];
+}
+
+export type FeedParseResult = { ok: true; feed: ParsedFeed } | { ok: false; reason: string };
+
+interface JsonFeedItem {
+  id?: string | number;
+  url?: string;
+  external_url?: string;
+  title?: string;
+  summary?: string;
+  content_text?: string;
+  content_html?: string;
+  date_published?: string;
+  date_modified?: string;
+  tags?: string[];
+}
+
+/** Text content of an HTML fragment, with whitespace collapsed. */
+export function htmlToText(html: string): string {
+  if (!/[<&]/.test(html)) {
+    return html.replace(/\s+/g, ' ').trim();
+  }
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  return (document.body.textContent ?? '').replace(/\s+/g, ' ').trim();
+}
+
+function isoDate(value: string | null | undefined): string {
+  if (!value) {
+    return '';
+  }
+  const date = new Date(value.trim());
+  return Number.isNaN(date.getTime()) ? '' : date.toISOString();
+}
+
+// Direct children only: Atom entries have their own <title> inside the feed's
+function child(parent: Element, ...names: string[]): Element | null {
+  for (const name of names) {
+    const match = Array.from(parent.children).find(element => element.localName === name);
+    if (match) {
+      return match;
+    }
+  }
+  return null;
+}
+
+function childText(parent: Element, ...names: string[]): string {
+  return child(parent, ...names)?.textContent?.trim() ?? '';
+}
+
+function children(parent: Element, name: string): Element[] {
+  return Array.from(parent.children).filter(element => element.localName === name);
+}
+
+function parseRss(root: Element): ParsedFeed {
+  // RSS 2.0 keeps items inside <channel>; RSS 1.0 (RDF) puts them next to it
+  const channel = child(root, 'channel') ?? root;
+  const items = [...children(channel, 'item'), ...(channel === root ? [] : children(root, 'item'))];
+  return {
+    title: childText(channel, 'title'),
+    entries: items.map(item => {
+      const url = childText(item, 'link');
+      return {
+        id: childText(item, 'guid') || url,
+        title: htmlToText(childText(item, 'title')),
+        summary: htmlToText(childText(item, 'description', 'encoded')),
+        url,
+        publishedAt: isoDate(childText(item, 'pubDate', 'date')),
+        categories: children(item, 'category').map(category => category.textContent?.trim() ?? '').filter(Boolean)
+      };
+    })
+  };
+}
+
+function parseAtom(root: Element): ParsedFeed {
+  return {
+    title: htmlToText(childText(root, 'title')),
+    entries: children(root, 'entry').map(entry => {
+      const links = children(entry, 'link');
+      const link = links.find(candidate => (candidate.getAttribute('rel') ?? 'alternate') === 'alternate') ?? links[0];
+      const url = link?.getAttribute('href') ?? '';
+      return {
+        id: childText(entry, 'id') || url,
+        title: htmlToText(childText(entry, 'title')),
+        summary: htmlToText(childText(entry, 'summary', 'content')),
+        url,
+        publishedAt: isoDate(childText(entry, 'published', 'updated')),
+        categories: children(entry, 'category').map(category => category.getAttribute('term') ?? '').filter(Boolean)
+      };
+    })
+  };
+}
+
+function parseJsonFeed(text: string): FeedParseResult {
+  let json: { version?: string; title?: string; items?: JsonFeedItem[] };
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    return { ok: false, reason: 'The feed is not valid JSON.' };
+  }
+  if (!json.version?.startsWith('https://jsonfeed.org/version/') || !Array.isArray(json.items)) {
+    return { ok: false, reason: 'The JSON is not a JSON Feed.' };
+  }
+  return {
+    ok: true,
+    feed: {
+      title: json.title ?? '',
+      entries: json.items.map(item => {
+        const url = item.url ?? item.external_url ?? '';
+        return {
+          id: item.id !== undefined ? String(item.id) : url,
+          title: htmlToText(item.title ?? ''),
+          summary: item.summary ?? item.content_text ?? htmlToText(item.content_html ?? ''),
+          url,
+          publishedAt: isoDate(item.date_published ?? item.date_modified),
+          categories: item.tags ?? []
+        };
+      })
+    }
+  };
+}
+
+/** Read an RSS 2.0, RSS 1.0, Atom or JSON Feed document. */
+export function parseFeed(text: string): FeedParseResult {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) {
+    return parseJsonFeed(trimmed);
+  }
+
+  const document = new DOMParser().parseFromString(trimmed, 'application/xml');
+  const root = document.documentElement;
+  if (!root || document.getElementsByTagName('parsererror').length > 0) {
+    return { ok: false, reason: 'The feed is not valid XML.' };
+  }
+  let feed: ParsedFeed;
+  switch (root.localName) {
+    case 'rss':
+    case 'RDF':
+      feed = parseRss(root);
+      break;
+    case 'feed':
+      feed = parseAtom(root);
+      break;
+    default:
+      return { ok: false, reason: 'This is not an RSS, Atom or JSON feed.' };
+  }
+  // Untitled entries have nothing to read out
+  return { ok: true, feed: { ...feed, entries: feed.entries.filter(entry => entry.title) } };
+}
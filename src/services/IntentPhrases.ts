@@ -0,0 +1,85 @@
+// Intent Phrases for BlindAssist - Command phrasings for each supported language
+// Added on top of the English grammar, so English commands keep working in every locale
+
+import type { IntentName } from './IntentRegistry';
+import type { LocaleCode } from './PreferencesService';
+
+export type PhraseTable = Partial<Record<IntentName, string[]>>;
+
+// Patterns use the IntentRegistry syntax and are matched against normalized,
+// lowercased text. Spelling variants recognizers commonly produce are listed together.
+export const LOCALIZED_PHRASES: Record<LocaleCode, PhraseTable> = {
+  'en-US': {},
+
+  'hi-IN': {
+    time: ['[अभी] (कितने बजे हैं|कितना बजा है)', '[अभी] (समय|टाइम) क्या (है|हुआ है)'],
+    date: ['आज (क्या|कौन सी) (तारीख|तारीख़) है', 'आज कौन सा दिन है'],
+    headlines: ['[आज की] (ताज़ा|ताजा) (ख़बरें|खबरें)', 'आज की (ख़बरें|खबरें|सुर्खियां|सुर्खियाँ)', '(ख़बरें|खबरें|समाचार) (सुनाओ|बताओ)'],
+    weather: ['[आज] मौसम (कैसा है|क्या है|बताओ)', '[आज का] मौसम'],
+    search: ['{query} [के बारे में] (खोजो|ढूंढो|ढूँढो|सर्च करो)'],
+    stop: ['(रुको|बंद करो|चुप|बस|बस करो)'],
+    repeat: ['(फिर से|दोबारा) (बोलो|कहो|सुनाओ)', 'दोहराओ'],
+    help: ['(मदद|सहायता) [(करो|चाहिए)]', 'मैं क्या (बोल|कह) सकता हूँ'],
+    readerNext: ['(अगला|आगे)'],
+    readerPrevious: ['(पिछला|पीछे)'],
+    readerPause: ['(ठहरो|थोड़ा रुको)'],
+    readerResume: ['(जारी रखो|आगे पढ़ो)'],
+    affirm: ['(हाँ|हां|जी हाँ|जी हां|ठीक है)'],
+    deny: ['(नहीं|नही|रहने दो|अभी नहीं)'],
+    more: ['(और बताओ|और)']
+  },
+
+  'te-IN': {
+    time: ['[ఇప్పుడు] (సమయం|టైం) ఎంత', 'ఎన్ని గంటలు అయింది'],
+    date: ['(ఈ రోజు|ఈరోజు) (తేదీ|తారీఖు) (ఏమిటి|ఎంత)', '(ఈ రోజు|ఈరోజు) ఏ రోజు'],
+    headlines: ['(ఈ రోజు|ఈరోజు) (వార్తలు|ముఖ్యాంశాలు)', '(వార్తలు|ముఖ్యాంశాలు) [(చెప్పు|చదువు|వినిపించు)]'],
+    weather: ['వాతావరణం [(ఎలా ఉంది|ఏమిటి|చెప్పు)]'],
+    search: ['{query} [గురించి] (వెతుకు|శోధించు|సెర్చ్ చేయి)'],
+    stop: ['(ఆపు|ఆగు|ఆపండి|చాలు)'],
+    repeat: ['(మళ్ళీ|మళ్లీ) (చెప్పు|చెప్పండి)'],
+    help: ['సహాయం [(చేయి|కావాలి)]'],
+    readerNext: ['(తర్వాత|తరువాత|తదుపరి)'],
+    readerPrevious: ['(వెనక్కి|మునుపటి)'],
+    readerPause: ['(విరామం|కాసేపు ఆగు)'],
+    readerResume: ['(కొనసాగించు|కొనసాగించండి)'],
+    affirm: ['(అవును|సరే)'],
+    deny: ['(వద్దు|కాదు|ఇప్పుడు వద్దు)'],
+    more: ['(ఇంకా చెప్పు|ఇంకా)']
+  },
+
+  'es-ES': {
+    time: ['(qué|que) hora es', 'dime la hora'],
+    date: ['(qué|que) (día|dia|fecha) es hoy', '(cuál|cual) es la fecha [de hoy]'],
+    headlines: ['[(cuáles son|cuales son|dime|lee)] [las] (noticias|titulares) [de hoy]', '(qué|que) está pasando'],
+    weather: ['(qué|que) tiempo hace [hoy]', '[(cómo|como) está] el (clima|tiempo) [hoy]'],
+    search: ['(busca|buscar) [(información sobre|informacion sobre|sobre)] {query}'],
+    stop: ['(para|detente|alto|silencio|basta|cállate|callate)'],
+    repeat: ['(repite|repítelo|repitelo)', '(dilo|dímelo|dimelo) otra vez'],
+    help: ['ayuda', '(qué|que) puedo decir'],
+    readerNext: ['(siguiente|próximo|proximo)'],
+    readerPrevious: ['(anterior|atrás|atras|vuelve)'],
+    readerPause: ['(pausa|pausar)'],
+    readerResume: ['(continúa|continua|sigue|reanudar)'],
+    affirm: ['(sí|si|claro|vale|de acuerdo)'],
+    deny: ['(no|no gracias|ahora no)'],
+    more: ['(más|mas|dime más|dime mas|cuéntame más|cuentame mas)']
+  },
+
+  'fr-FR': {
+    time: ['quelle heure est il', 'il est quelle heure'],
+    date: ["(quelle est la date|quel jour sommes nous|on est quel jour) [aujourd'hui]"],
+    headlines: ["[(quelles sont|lis|donne moi)] les (actualités|actualites|titres|nouvelles) [(du jour|d'aujourd'hui)]", 'quoi de neuf'],
+    weather: ["quel temps fait il [aujourd'hui]", "[(quelle est la|la)] (météo|meteo) [aujourd'hui]"],
+    search: ['(cherche|recherche) [(des informations sur|sur)] {query}'],
+    stop: ['(arrête|arrete|stop|silence|tais toi|assez)'],
+    repeat: ['(répète|repete|répétez|repetez)', 'redis le'],
+    help: ['aide [moi]', "qu'est ce que je peux dire"],
+    readerNext: ['(suivant|suivante)'],
+    readerPrevious: ['(précédent|precedent|retour|reviens)'],
+    readerPause: ['pause'],
+    readerResume: ['(continue|reprends|reprendre)'],
+    affirm: ["(oui|d'accord|bien sûr|vas y)"],
+    deny: ['(non|pas maintenant|non merci)'],
+    more: ["(plus|encore|dis m'en plus)"]
+  }
+};
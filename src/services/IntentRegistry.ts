@@ -0,0 +1,733 @@
+// Intent Registry for BlindAssist - Declarative voice command grammar
+// Each intent lists the phrasings it accepts; the parser picks one unambiguous match
+
+import PreferencesService, { LocaleCode } from './PreferencesService';
+import { LOCALIZED_PHRASES } from './IntentPhrases';
+import { NUMBER_PATTERN, POSITION_PATTERN } from './SpokenNumbers';
+import { DAY_PATTERN, DURATION_PATTERN, TIME_PATTERN } from './SpokenTimes';
+import { EXPRESSION_PATTERN } from './Calculator';
+
+/**
+ * Slots extracted for each intent. Adding an intent means adding its slots here
+ * so handlers get a typed `slots` object after narrowing on `name`.
+ */
+export interface IntentSlotMap {
+  wake: { command?: string };
+  date: Record<string, never>;
+  time: Record<string, never>;
+  headlines: Record<string, never>;
+  headlineDetail: { index: string };
+  googleSearch: { query: string };
+  search: { query: string };
+  // No location means where the device is; no day means right now
+  weather: { location?: string; day?: string };
+  // The question asked ("will it rain", "is it cold") is read from the utterance
+  weatherQuestion: { location?: string; day?: string };
+  stop: Record<string, never>;
+  repeat: Record<string, never>;
+  repeatSlower: Record<string, never>;
+  repeatSpelled: Record<string, never>;
+  repeatPrevious: Record<string, never>;
+  readPage: Record<string, never>;
+  summarizePage: Record<string, never>;
+  help: Record<string, never>;
+  shortcuts: Record<string, never>;
+  readerNext: Record<string, never>;
+  readerPrevious: Record<string, never>;
+  readerRestart: Record<string, never>;
+  readerResume: Record<string, never>;
+  readerPause: Record<string, never>;
+  affirm: Record<string, never>;
+  deny: Record<string, never>;
+  readItem: { index: string };
+  openItem: { index?: string };
+  more: Record<string, never>;
+  searchMore: Record<string, never>;
+  switchMode: { mode: string };
+  webSearch: { query: string };
+  describeImage: Record<string, never>;
+  analyzeText: Record<string, never>;
+  readText: Record<string, never>;
+  dictate: Record<string, never>;
+  setTimer: { duration: string };
+  setAlarm: { time: string };
+  // Either a delay ("in 20 minutes") or a time of day
+  setReminder: { message: string; delay?: string; time?: string };
+  listTimers: Record<string, never>;
+  cancelTimer: { index?: string };
+  cancelAllTimers: Record<string, never>;
+  calculate: { expression: string };
+  // No amount means one: "how many ounces in a liter"
+  convertUnits: { amount?: string; from: string; to: string };
+  // Patterns are the user's own phrases; the matched pattern identifies the command
+  macro: Record<string, never>;
+}
+
+export type IntentName = keyof IntentSlotMap;
+
+/**
+ * Pattern syntax, matched against the whole normalized utterance:
+ *   word          literal word
+ *   (a|b c)       one of several alternatives
+ *   [word]        optional word or group, e.g. [(like|today)]
+ *   {slot}        one or more words captured into slots.slot
+ *   {slot:number} a number in digits or words ("2", "twenty one", "second", "for")
+ *   {slot:position} a place in a list: a number, "last", "second to last", "next", "this"
+ *   {slot:duration} a length of time ("10 minutes", "an hour and a half")
+ *   {slot:time}     a time of day ("3 pm", "3 30", "noon", "quarter to four")
+ *   {slot:expression} arithmetic with at least one operator ("15 percent of 240", "12 times 7")
+ *   {slot:day}      a day or a few days ahead ("tomorrow", "on friday", "this weekend")
+ *   *             any number of words, ignored
+ */
+export interface IntentDefinition<N extends IntentName = IntentName> {
+  name: N;
+  patterns: string[];
+  // Higher wins when several intents match the same utterance
+  priority: number;
+  examples: string[];
+  description: string;
+  // Ask "did you mean" first when recognition is unsure: the command is slow, costly or disruptive
+  confirm?: boolean;
+}
+
+export type ParsedIntent<N extends IntentName = IntentName> = {
+  [K in N]: {
+    name: K;
+    slots: IntentSlotMap[K];
+    utterance: string;
+    pattern: string;
+  };
+}[N];
+
+interface CompiledPattern {
+  source: string;
+  regex: RegExp;
+  // Number of literal characters; breaks ties between equal-priority matches
+  specificity: number;
+}
+
+interface CompiledIntent {
+  definition: IntentDefinition;
+  patterns: CompiledPattern[];
+}
+
+const SLOT_TYPES: Record<string, string> = {
+  number: NUMBER_PATTERN,
+  position: POSITION_PATTERN,
+  duration: DURATION_PATTERN,
+  time: TIME_PATTERN,
+  expression: EXPRESSION_PATTERN,
+  day: DAY_PATTERN
+};
+
+// Conversational padding that never changes what the user is asking for
+const FILLER_PREFIX = /^(please|okay|ok|so|um|uh|can you|could you|would you|will you|i want to|i'd like to|i would like to)\s+/;
+const FILLER_SUFFIX = /\s+(please|thanks|thank you)$/;
+
+export function normalizeUtterance(utterance: string): string {
+  let normalized = utterance
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    // Recognizers write "1,000", "2.5", "15%" and "5 + 3"; keep what the symbols say
+    .replace(/(\d),(?=\d{3}\b)/g, '$1')
+    .replace(/(\d)\.(?=\d)/g, '$1 point ')
+    .replace(/%/g, ' percent')
+    .replace(/(\d) ?\+ ?(?=\d)/g, '$1 plus ')
+    .replace(/(\d) [-−] (?=\d)/g, '$1 minus ')
+    .replace(/(\d) ?[×*] ?(?=\d)/g, '$1 times ')
+    .replace(/(\d) ?÷ ?(?=\d)|(\d) \/ (?=\d)/g, '$1$2 divided by ')
+    // Keep combining marks: Devanagari and Telugu vowel signs are part of the word
+    .replace(/[^\p{L}\p{M}\p{N}'\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  let previous = '';
+  while (previous !== normalized) {
+    previous = normalized;
+    normalized = normalized.replace(FILLER_PREFIX, '').replace(FILLER_SUFFIX, '');
+  }
+  return normalized;
+}
+
+// Split on spaces that are not inside (...) or [...]
+function splitTopLevel(pattern: string): string[] {
+  const tokens: string[] = [];
+  let depth = 0;
+  let token = '';
+  for (const char of pattern.trim()) {
+    if (char === '(' || char === '[') depth++;
+    if (char === ')' || char === ']') depth--;
+    if (char === ' ' && depth === 0) {
+      if (token) tokens.push(token);
+      token = '';
+    } else {
+      token += char;
+    }
+  }
+  if (token) tokens.push(token);
+  return tokens;
+}
+
+function compileLiteral(text: string): string {
+  return text
+    .replace(/[.+?^${}\\*]/g, '\\$&')
+    .replace(/\(/g, '(?:')
+    .replace(/\[([^\]]*)\]/g, '(?:$1 )?');
+}
+
+export function compilePattern(source: string): CompiledPattern {
+  let specificity = 0;
+  // Every token consumes its trailing space; the input gets one appended to match
+  // Same Unicode form as normalizeUtterance, or nukta and accented letters may not match
+  const body = splitTopLevel(source.normalize('NFC')).map(token => {
+    if (token === '*') {
+      return '(?:.*? )?';
+    }
+    const slot = token.match(/^\{(\w+)(?::(\w+))?\}$/);
+    if (slot) {
+      const [, name, type] = slot;
+      if (type) {
+        if (!SLOT_TYPES[type]) {
+          throw new Error(`Unknown slot type "${type}" in pattern "${source}"`);
+        }
+        return `(?<${name}>(?:${SLOT_TYPES[type]}) )`;
+      }
+      return `(?<${name}>.+? )`;
+    }
+    specificity += token.replace(/[()[\]|]/g, '').length;
+    if (token.startsWith('[') && token.endsWith(']')) {
+      return `(?:${compileLiteral(token.slice(1, -1))} )?`;
+    }
+    return `${compileLiteral(token)} `;
+  }).join('');
+
+  return { source, regex: new RegExp(`^${body}$`), specificity };
+}
+
+export const DEFAULT_INTENTS: IntentDefinition[] = [
+  {
+    name: 'wake',
+    patterns: ['[(hey|ok|okay)] (blindassist|blind assist)', '[(hey|ok|okay)] (blindassist|blind assist) {command}'],
+    priority: 100,
+    examples: ['Hey BlindAssist', 'Hey BlindAssist what time is it'],
+    description: 'Wake word activation'
+  },
+  {
+    name: 'stop',
+    patterns: ['(stop|quiet|be quiet|silence|shut up|cancel|enough)', 'stop (talking|reading|speaking|that|it)'],
+    priority: 90,
+    examples: ['Stop', 'Be quiet'],
+    description: 'Halt all audio output'
+  },
+  {
+    name: 'switchMode',
+    patterns: [
+      '(switch|change|go) to [the] {mode}',
+      '(open|start|use) [the] {mode} mode'
+    ],
+    priority: 65,
+    examples: ['Switch to image mode', 'Go to web navigation'],
+    description: 'Change the assistance mode',
+    confirm: true
+  },
+  {
+    name: 'readerNext',
+    patterns: ['next [(one|headline|sentence|paragraph|item|story|point)]', 'skip [this] [(one|headline|sentence|paragraph|item|story|point)]'],
+    priority: 60,
+    examples: ['Next', 'Skip headline'],
+    description: 'Move to the next item while reading'
+  },
+  {
+    name: 'readerPrevious',
+    patterns: ['(go back|back|previous) [(one|headline|sentence|paragraph|item|story|point)]', 'previous (one|headline|sentence|paragraph|item|story|point)'],
+    priority: 60,
+    examples: ['Go back', 'Previous sentence'],
+    description: 'Move to the previous item while reading'
+  },
+  {
+    name: 'readerRestart',
+    patterns: ['(start over|restart|jump to start|jump to the start|from the beginning|start from the beginning|go to the beginning)'],
+    priority: 60,
+    examples: ['Start over'],
+    description: 'Read again from the beginning'
+  },
+  {
+    name: 'readerResume',
+    patterns: ['(resume|continue|keep reading|keep going) [reading]'],
+    priority: 60,
+    examples: ['Resume'],
+    description: 'Resume reading where you paused'
+  },
+  {
+    name: 'readerPause',
+    patterns: ['pause [(reading|it|that)]', 'hold on'],
+    priority: 60,
+    examples: ['Pause'],
+    description: 'Pause reading'
+  },
+  {
+    name: 'affirm',
+    patterns: ['(yes|yeah|yep|yup|sure|ok|okay|go ahead|do it|of course|sure thing)'],
+    priority: 70,
+    examples: ['Yes', 'Go ahead'],
+    description: 'Answer yes to my last question'
+  },
+  {
+    name: 'deny',
+    patterns: ["(no|nope|nah|not now|never mind|nevermind|don't|no need)"],
+    priority: 70,
+    examples: ['No', 'Not now'],
+    description: 'Answer no to my last question'
+  },
+  {
+    name: 'readItem',
+    patterns: [
+      'read [me] [the] {index:position} [(one|result|story|link|item)]',
+      'read result [number] {index:position}',
+      'tell me about [the] {index:position} (one|result|headline|story)',
+      '[the] {index:position} one'
+    ],
+    priority: 58,
+    examples: ['Read the second one', 'Read result 3'],
+    description: 'Read a result or headline from the last list'
+  },
+  {
+    name: 'openItem',
+    patterns: [
+      'open (it|that|this) [(link|result|page|story)]',
+      'open [the] {index:position} [(one|result|link|story)]',
+      'open (result|link) [number] {index:position}'
+    ],
+    priority: 58,
+    examples: ['Open it', 'Open the first one'],
+    description: 'Open a result or story in a new tab',
+    confirm: true
+  },
+  {
+    name: 'more',
+    patterns: ['(more|tell me more|more details|more about (it|that|this)|go on|what else)'],
+    priority: 58,
+    examples: ['Tell me more', 'What else'],
+    description: 'Continue with the last results'
+  },
+  {
+    name: 'searchMore',
+    patterns: [
+      '(search|look|find) [for] more (about|on) (that|it|this) [(topic|story)]',
+      '(search|look) for more [(results|information|updates)]'
+    ],
+    priority: 56,
+    examples: ['Search for more about that'],
+    description: 'Search further on the last topic',
+    confirm: true
+  },
+  {
+    name: 'headlineDetail',
+    patterns: [
+      '[tell me] more about headline [number] {index:position}',
+      '[tell me] more about the {index:position} headline',
+      '(read|open) headline [number] {index:position}',
+      '(read|open) the {index:position} headline',
+      'headline [number] {index:position} [(details|in detail)]',
+      '[the] {index:position} headline'
+    ],
+    priority: 55,
+    examples: ['Tell me more about headline 2', 'Read the last headline'],
+    description: 'Detailed news story',
+    confirm: true
+  },
+  {
+    name: 'headlines',
+    patterns: [
+      "[(what are|what're|read|get|tell me)] [(today's|the|the top|today's top|top)] headlines [today]",
+      "what('s| is) happening [(today|in the world)]",
+      "[(what's|what is)] [in] the news [today]",
+      "[(read|get|tell me)] today's news",
+      '* headlines *'
+    ],
+    priority: 50,
+    examples: ["What are today's headlines", "What's happening"],
+    description: 'Current news from credible sources'
+  },
+  {
+    name: 'googleSearch',
+    patterns: ['search google for {query}', 'google search [for] {query}', 'google {query}'],
+    priority: 50,
+    examples: ['Search Google for tech news'],
+    description: 'Web search with the service chosen in settings',
+    confirm: true
+  },
+  {
+    name: 'webSearch',
+    patterns: [
+      '(open|start|do) [a] web search (for|about) {query}',
+      'web search [(for|about)] {query}',
+      '(open|go to) web navigation and search for {query}'
+    ],
+    priority: 52,
+    examples: ['Open web search for electric cars'],
+    description: 'Search in web navigation mode',
+    confirm: true
+  },
+  {
+    name: 'describeImage',
+    patterns: [
+      'describe [(the|this|my)] (image|picture|photo)',
+      "what('s| is) in [(the|this|my)] (image|picture|photo)"
+    ],
+    priority: 50,
+    examples: ['Describe the image'],
+    description: 'Describe the selected image',
+    confirm: true
+  },
+  {
+    name: 'analyzeText',
+    patterns: ['(analyze|analyse) [(the|this|my)] text'],
+    priority: 50,
+    examples: ['Analyze this text'],
+    description: 'Analyze the text in text analysis mode'
+  },
+  {
+    name: 'readText',
+    patterns: ['read [(the|this|my)] text [(aloud|out loud)]'],
+    priority: 50,
+    examples: ['Read the text aloud'],
+    description: 'Read the text from text analysis mode aloud'
+  },
+  {
+    name: 'dictate',
+    patterns: ['(start|begin) (dictation|dictating)', 'dictate [(some|a|the)] [(text|note|message)]', 'take a note'],
+    priority: 50,
+    examples: ['Start dictation'],
+    description: 'Write text by voice in text analysis mode'
+  },
+  {
+    name: 'setTimer',
+    patterns: [
+      '(set|start|create) [(a|an|the)] timer for {duration:duration}',
+      '(set|start|create) [(a|an)] {duration:duration} timer',
+      'timer for {duration:duration}'
+    ],
+    priority: 55,
+    examples: ['Set a timer for 10 minutes'],
+    description: 'Count down and tell you when the time is up'
+  },
+  {
+    name: 'setAlarm',
+    patterns: [
+      '(set|create) [(an|the)] alarm (for|at) {time:time}',
+      'wake me [up] at {time:time}'
+    ],
+    priority: 55,
+    examples: ['Set an alarm for 7 am'],
+    description: 'Alert you at a time of day'
+  },
+  {
+    name: 'setReminder',
+    patterns: [
+      'remind me (in|after) {delay:duration} to {message}',
+      'remind me at {time:time} to {message}',
+      'remind me to {message} (in|after) {delay:duration}',
+      'remind me to {message} at {time:time}',
+      '(set|create) [a] reminder (for|at) {time:time} to {message}',
+      '(set|create) [a] reminder in {delay:duration} to {message}'
+    ],
+    priority: 55,
+    examples: ['Remind me at 3 pm to take my medication', 'Remind me in 20 minutes to check the oven'],
+    description: 'Remind you of something later'
+  },
+  {
+    name: 'listTimers',
+    patterns: [
+      '(what|which) (timers|alarms|reminders) (are|do i have) [(running|set|active|on)]',
+      '(list|show) [(my|the)] (timers|alarms|reminders)',
+      'do i have any (timers|alarms|reminders) [(running|set)]',
+      'how (long|much time) is left [on (the|my) timer]'
+    ],
+    priority: 55,
+    examples: ['What timers are running', 'How long is left'],
+    description: 'Hear your timers, alarms and reminders'
+  },
+  {
+    name: 'cancelTimer',
+    patterns: [
+      '(cancel|stop|delete|remove|clear|turn off) [(the|my|that)] (timer|alarm|reminder)',
+      '(cancel|stop|delete|remove|clear|turn off) [the] {index:position} (timer|alarm|reminder)'
+    ],
+    priority: 55,
+    examples: ['Cancel the timer', 'Cancel the second reminder'],
+    description: 'Cancel a timer, alarm or reminder'
+  },
+  {
+    name: 'cancelAllTimers',
+    patterns: ['(cancel|stop|delete|remove|clear|turn off) all [(the|my)] (timers|alarms|reminders)'],
+    priority: 55,
+    examples: ['Cancel all timers'],
+    description: 'Cancel every timer, alarm or reminder of that kind',
+    confirm: true
+  },
+  {
+    name: 'calculate',
+    patterns: [
+      "(what('s| is)|whats|calculate|compute|work out|how much is) [the] {expression:expression}",
+      '{expression:expression}'
+    ],
+    priority: 55,
+    examples: ['What is 15 percent of 240', 'What is 12 times 7'],
+    description: 'Work out a sum'
+  },
+  {
+    name: 'convertUnits',
+    patterns: [
+      '(convert|change) {amount:number} {from} (to|into|in) {to}',
+      '(convert|change) (a|an) {from} (to|into|in) {to}',
+      "what('s| is) {amount:number} {from} in {to}",
+      'how many {to} [(are|is)] [there] in {amount:number} {from}',
+      'how many {to} [(are|is)] [there] in (a|an) {from}'
+    ],
+    priority: 55,
+    examples: ['Convert 72 Fahrenheit to Celsius', 'How many ounces in a liter'],
+    description: 'Convert between units'
+  },
+  {
+    name: 'search',
+    patterns: ['(search for|search the web for|search|look up|find news about|find) {query}'],
+    priority: 45,
+    examples: ['Search for accessible travel', 'Look up electric cars'],
+    description: 'Web search on any topic',
+    confirm: true
+  },
+  {
+    name: 'time',
+    patterns: [
+      'what time is it [now]',
+      "what('s| is) the [current] time [now]",
+      '[(tell me)] the [current] time',
+      '[current] time [now]'
+    ],
+    priority: 40,
+    examples: ['What time is it'],
+    description: 'Current time'
+  },
+  {
+    name: 'date',
+    patterns: [
+      'what (day|date) is (it|today) [today]',
+      "what('s| is) [(the|today's)] date [today]",
+      "what('s| is) today",
+      "[(tell me)] [(the|today's)] date",
+      'what day of the week is it'
+    ],
+    priority: 40,
+    examples: ["What's today's date", 'What day is it'],
+    description: 'Current date and time'
+  },
+  {
+    name: 'weatherQuestion',
+    patterns: [
+      '(will it|is it going to|is it gonna|is it likely to) (rain|snow|storm|be (sunny|clear|windy|hot|warm|cold|freezing|stormy|rainy|snowy)) (in|at) {location} {day:day}',
+      '(will it|is it going to|is it gonna|is it likely to) (rain|snow|storm|be (sunny|clear|windy|hot|warm|cold|freezing|stormy|rainy|snowy)) {day:day} (in|at) {location}',
+      '(will it|is it going to|is it gonna|is it likely to) (rain|snow|storm|be (sunny|clear|windy|hot|warm|cold|freezing|stormy|rainy|snowy)) {day:day}',
+      '(will it|is it going to|is it gonna|is it likely to) (rain|snow|storm|be (sunny|clear|windy|hot|warm|cold|freezing|stormy|rainy|snowy)) (in|at) {location}',
+      '(will it|is it going to|is it gonna|is it likely to) (rain|snow|storm|be (sunny|clear|windy|hot|warm|cold|freezing|stormy|rainy|snowy)) [(today|later|later today)]',
+      'is it (raining|snowing|sunny|windy|hot|warm|cold|freezing) (in|at) {location}',
+      'is it (raining|snowing|sunny|windy|hot|warm|cold|freezing) [(now|right now|outside|out)]',
+      '(do|will|should) i (need|take|bring) (an umbrella|a raincoat|a coat|a jacket|sunscreen) {day:day}',
+      '(do|will|should) i (need|take|bring) (an umbrella|a raincoat|a coat|a jacket|sunscreen) [(today|now)]'
+    ],
+    priority: 35,
+    examples: ['Will it rain tomorrow', 'Do I need an umbrella'],
+    description: 'Yes or no answers about the weather'
+  },
+  {
+    name: 'weather',
+    patterns: [
+      "[(what's|what is|how's|how is)] the (weather|forecast|weather forecast) [(like|going to be like|looking like)] (in|for|at) {location} {day:day}",
+      "[(what's|what is|how's|how is)] the (weather|forecast|weather forecast) [(like|going to be like|looking like)] {day:day} (in|for|at) {location}",
+      "[(what's|what is|how's|how is)] the (weather|forecast|weather forecast) [(like|going to be like|looking like)] [for] {day:day}",
+      "[(what's|what is|how's|how is)] the (weather|forecast|weather forecast) [(like|going to be like|looking like)] (in|for|at) {location}",
+      '(weather|forecast|weather forecast) (in|for|at) {location} {day:day}',
+      '(weather|forecast|weather forecast) (in|for|at) {location}',
+      '(weather|forecast|weather forecast) [for] {day:day}',
+      "[(what's|what is|how's|how is)] the weather [(like|today|now|like today)]",
+      "[(what's|what is)] the [weather] forecast",
+      '* weather *'
+    ],
+    priority: 30,
+    examples: ["What's the weather", 'Weather in Hyderabad', "What's the forecast for this weekend"],
+    description: 'Weather and forecasts for where you are or any place'
+  },
+  {
+    name: 'repeat',
+    patterns: [
+      'repeat [(that|it|yourself)]',
+      'say (that|it) again',
+      'say the last thing [(again|you said)]',
+      'what did you [just] say',
+      '(pardon|come again)'
+    ],
+    priority: 30,
+    examples: ['Repeat', 'Say the last thing again'],
+    description: 'Repeat the last response'
+  },
+  {
+    name: 'repeatSlower',
+    patterns: [
+      'repeat [(that|it)] [(more|a bit|a little)] (slower|slowly)',
+      'say (that|it) [again] [(more|a bit|a little)] (slower|slowly)',
+      '[(say it|a bit|a little)] slower'
+    ],
+    priority: 30,
+    examples: ['Repeat that slower'],
+    description: 'Repeat the last response at a slower rate'
+  },
+  {
+    name: 'repeatSpelled',
+    patterns: [
+      'spell [(that|it)] [out]',
+      '(repeat|say) (that|it) [again] spelled out'
+    ],
+    priority: 30,
+    examples: ['Spell that'],
+    description: 'Spell out the last response letter by letter'
+  },
+  {
+    name: 'repeatPrevious',
+    patterns: [
+      'what did you say before that',
+      '[(and|what about)] before that',
+      '(repeat|say) the (one|thing) before that [again]'
+    ],
+    priority: 30,
+    examples: ['What did you say before that'],
+    description: 'Step back to an earlier response'
+  },
+  {
+    name: 'readPage',
+    patterns: ['read [(this|the)] page', 'read (this|the) page [(aloud|out loud)]'],
+    priority: 30,
+    examples: ['Read this page'],
+    description: 'Analyze current content'
+  },
+  {
+    name: 'summarizePage',
+    patterns: ['(summarize|summarise) [(this|the)] [(page|content)]'],
+    priority: 30,
+    examples: ['Summarize this'],
+    description: 'Summarize current content'
+  },
+  {
+    name: 'help',
+    patterns: ['help [me]', 'what can (i|you) (say|do)', '[(show|list)] [(the|all)] commands', '* help *'],
+    priority: 20,
+    examples: ['Help'],
+    description: 'Complete command guide'
+  },
+  {
+    name: 'shortcuts',
+    patterns: ['[(what are|list|read|tell me)] [the] keyboard shortcuts', '(what are|list) [the] shortcuts'],
+    // Above the catch-all "help" phrasing
+    priority: 25,
+    examples: ['What are the keyboard shortcuts'],
+    description: 'Keyboard shortcut reference'
+  }
+];
+
+class IntentRegistry {
+  private static instance: IntentRegistry;
+  private intents: CompiledIntent[] = [];
+  // Extra phrasings for the current language, kept apart so register() never drops them
+  private localePatterns = new Map<IntentName, CompiledPattern[]>();
+  private locale: LocaleCode | null = null;
+
+  private constructor() {
+    DEFAULT_INTENTS.forEach(definition => this.register(definition));
+    const preferences = PreferencesService.getInstance();
+    this.setLocale(preferences.get().language.locale);
+    preferences.subscribe(({ language }) => this.setLocale(language.locale));
+  }
+
+  static getInstance(): IntentRegistry {
+    if (!IntentRegistry.instance) {
+      IntentRegistry.instance = new IntentRegistry();
+    }
+    return IntentRegistry.instance;
+  }
+
+  /** Add or replace an intent definition. */
+  register(definition: IntentDefinition): void {
+    this.unregister(definition.name);
+    this.intents.push({ definition, patterns: definition.patterns.map(compilePattern) });
+  }
+
+  unregister(name: IntentName): void {
+    this.intents = this.intents.filter(intent => intent.definition.name !== name);
+  }
+
+  /** Accept the command phrases of a language in addition to English. */
+  setLocale(locale: LocaleCode): void {
+    if (locale === this.locale) {
+      return;
+    }
+    this.locale = locale;
+    this.localePatterns = new Map(
+      (Object.entries(LOCALIZED_PHRASES[locale]) as [IntentName, string[]][])
+        .map(([name, patterns]) => [name, patterns.map(compilePattern)])
+    );
+  }
+
+  getDefinition(name: IntentName): IntentDefinition | undefined {
+    return this.intents.find(intent => intent.definition.name === name)?.definition;
+  }
+
+  getDefinitions(): IntentDefinition[] {
+    return this.intents.map(intent => intent.definition);
+  }
+
+  /** The single best interpretation of an utterance, or null when nothing matches. */
+  parse(utterance: string): ParsedIntent | null {
+    return this.parseAll(utterance)[0] ?? null;
+  }
+
+  /** Every matching interpretation, best first. */
+  parseAll(utterance: string): ParsedIntent[] {
+    const normalized = normalizeUtterance(utterance);
+    if (!normalized) {
+      return [];
+    }
+
+    const matches: { parsed: ParsedIntent; priority: number; specificity: number }[] = [];
+    for (const { definition, patterns } of this.intents) {
+      let best: { pattern: CompiledPattern; groups: Record<string, string> } | null = null;
+      for (const pattern of [...patterns, ...(this.localePatterns.get(definition.name) ?? [])]) {
+        const match = pattern.regex.exec(`${normalized} `);
+        if (match && (!best || pattern.specificity > best.pattern.specificity)) {
+          best = { pattern, groups: match.groups ?? {} };
+        }
+      }
+      if (!best) {
+        continue;
+      }
+
+      const slots: Record<string, string> = {};
+      Object.entries(best.groups).forEach(([key, value]) => {
+        if (value !== undefined) {
+          slots[key] = value.trim();
+        }
+      });
+
+      matches.push({
+        parsed: { name: definition.name, slots, utterance: normalized, pattern: best.pattern.source } as ParsedIntent,
+        priority: definition.priority,
+        specificity: best.pattern.specificity
+      });
+    }
+
+    return matches
+      .sort((a, b) => b.priority - a.priority || b.specificity - a.specificity)
+      .map(match => match.parsed);
+  }
+}
+
+export default IntentRegistry;
@@ -0,0 +1,223 @@
+// Keyboard Shortcut Service for BlindAssist - App-wide keys for listening, modes and replay
+// Push-to-talk is handled here; every other shortcut goes to a handler the app installs
+
+import PreferencesService, { PUSH_TO_TALK_KEYS } from './PreferencesService';
+import SpeechRecognitionService from './SpeechRecognitionService';
+import { AssistMode, MODE_LABELS } from './AssistModeService';
+
+export type ShortcutAction =
+  | { type: 'cancel' }
+  | { type: 'toggleListening' }
+  | { type: 'switchMode'; mode: AssistMode }
+  | { type: 'repeat' }
+  | { type: 'help' }
+  | { type: 'commandConsole' }
+  | { type: 'reference' };
+
+export type ShortcutHandler = (action: ShortcutAction) => void;
+
+export interface Shortcut {
+  // As shown on screen and in aria-keyshortcuts
+  keys: string;
+  description: string;
+  action: ShortcutAction;
+}
+
+interface ShortcutBinding extends Shortcut {
+  matches: (event: KeyboardEvent) => boolean;
+}
+
+// Where typed characters belong to the page, not to us
+const TEXT_ENTRY = 'input, textarea, select, [contenteditable=""], [contenteditable="true"], [role="textbox"], [role="searchbox"], [role="combobox"]';
+// Elements that already do something with Space
+const SPACE_TARGETS = `${TEXT_ENTRY}, button, a[href], summary, [role="button"], [role="checkbox"], [role="switch"], [role="radio"], [role="tab"], [role="menuitem"], [role="option"], [role="slider"], [tabindex]`;
+// Open layers that close themselves on Escape
+const OVERLAYS = '[role="dialog"], [role="alertdialog"], [role="menu"], [role="listbox"]';
+
+// Alt+Shift combinations are free in browsers and common screen readers;
+// event.code is used because Alt changes the typed character on macOS
+const altShift = (code: string) => (event: KeyboardEvent) =>
+  event.altKey && event.shiftKey && !event.ctrlKey && !event.metaKey && event.code === code;
+
+const MODE_KEYS: [AssistMode, string][] = [['voice', '1'], ['web', '2'], ['image', '3'], ['text', '4']];
+
+const SHORTCUTS: ShortcutBinding[] = [
+  {
+    keys: 'Escape',
+    description: 'stop speaking and cancel what is running',
+    action: { type: 'cancel' },
+    matches: event => event.key === 'Escape' && !event.altKey && !event.ctrlKey && !event.metaKey
+  },
+  {
+    keys: 'Alt+Shift+L',
+    description: 'start or stop listening',
+    action: { type: 'toggleListening' },
+    matches: altShift('KeyL')
+  },
+  ...MODE_KEYS.map(([mode, digit]): ShortcutBinding => ({
+    keys: `Alt+Shift+${digit}`,
+    description: `switch to ${MODE_LABELS[mode]}`,
+    action: { type: 'switchMode', mode },
+    matches: altShift(`Digit${digit}`)
+  })),
+  {
+    keys: 'Alt+Shift+R',
+    description: 'repeat the last response',
+    action: { type: 'repeat' },
+    matches: altShift('KeyR')
+  },
+  {
+    keys: 'Alt+Shift+H',
+    description: 'hear the voice command guide',
+    action: { type: 'help' },
+    matches: altShift('KeyH')
+  },
+  {
+    keys: 'Alt+Shift+C',
+    description: 'type a command instead of speaking it',
+    action: { type: 'commandConsole' },
+    matches: altShift('KeyC')
+  },
+  {
+    keys: '?',
+    description: 'hear this list of shortcuts',
+    action: { type: 'reference' },
+    matches: event => event.key === '?' && !event.altKey && !event.ctrlKey && !event.metaKey
+  }
+];
+
+function targetOf(event: KeyboardEvent): Element | null {
+  return event.target instanceof Element ? event.target : null;
+}
+
+// "Alt+Shift+1" is read as "Alt Shift 1"
+function speakKeys(keys: string): string {
+  return keys === '?' ? 'Question mark' : keys.replace(/\+/g, ' ');
+}
+
+class KeyboardShortcutService {
+  private static instance: KeyboardShortcutService;
+  private handler: ShortcutHandler | null = null;
+  private preferences = PreferencesService.getInstance();
+  private recognition = SpeechRecognitionService.getInstance();
+  // The push-to-talk key is down
+  private holding = false;
+  // Listening was started by the held key, so releasing it ends listening
+  private startedByHold = false;
+
+  static getInstance(): KeyboardShortcutService {
+    if (!KeyboardShortcutService.instance) {
+      KeyboardShortcutService.instance = new KeyboardShortcutService();
+    }
+    return KeyboardShortcutService.instance;
+  }
+
+  /** Where shortcuts other than push-to-talk are sent; the app installs one at start-up. */
+  setHandler(handler: ShortcutHandler | null): void {
+    this.handler = handler;
+  }
+
+  /** Listen for shortcuts on the whole window; returns a function that stops listening. */
+  attach(): () => void {
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('keyup', this.handleKeyUp);
+    window.addEventListener('blur', this.release);
+    return () => {
+      window.removeEventListener('keydown', this.handleKeyDown);
+      window.removeEventListener('keyup', this.handleKeyUp);
+      window.removeEventListener('blur', this.release);
+      this.release();
+    };
+  }
+
+  getShortcuts(): Shortcut[] {
+    return SHORTCUTS.map(({ keys, description, action }) => ({ keys, description, action }));
+  }
+
+  getPushToTalkLabel(): string | null {
+    const code = this.preferences.get().shortcuts.pushToTalkKey;
+    return PUSH_TO_TALK_KEYS.find(key => key.code === code)?.label ?? null;
+  }
+
+  /** The shortcut reference as one spoken paragraph. */
+  describe(): string {
+    const pushToTalk = this.getPushToTalkLabel();
+    const parts = [
+      pushToTalk
+        ? `Hold ${pushToTalk} and speak a command, then let go.`
+        : 'Push to talk is turned off in Settings.',
+      ...SHORTCUTS.map(shortcut => `${speakKeys(shortcut.keys)}: ${shortcut.description}.`)
+    ];
+    return `Keyboard shortcuts. ${parts.join(' ')}`;
+  }
+
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    if (event.defaultPrevented) {
+      return;
+    }
+
+    if (this.isPushToTalkKey(event)) {
+      if (!this.isFreeKey(event)) {
+        return;
+      }
+      event.preventDefault();
+      if (!event.repeat && !this.holding) {
+        this.holding = true;
+        const { listening, preparing } = this.recognition.getState();
+        if (!listening && !preparing) {
+          this.startedByHold = true;
+          this.recognition.startPushToTalk();
+        }
+      }
+      return;
+    }
+
+    const shortcut = SHORTCUTS.find(candidate => candidate.matches(event));
+    if (!shortcut || !this.isFreeKey(event)) {
+      return;
+    }
+    // Let an open dialog or menu close first
+    if (shortcut.action.type === 'cancel' && targetOf(event)?.closest(OVERLAYS)) {
+      return;
+    }
+    event.preventDefault();
+    this.handler?.(shortcut.action);
+  };
+
+  private handleKeyUp = (event: KeyboardEvent): void => {
+    if (this.holding && event.code === this.preferences.get().shortcuts.pushToTalkKey) {
+      this.release();
+    }
+  };
+
+  // Also used when the window loses focus, since the key up would then never arrive
+  private release = (): void => {
+    if (this.startedByHold) {
+      this.recognition.finish();
+    }
+    this.holding = false;
+    this.startedByHold = false;
+  };
+
+  private isPushToTalkKey(event: KeyboardEvent): boolean {
+    const code = this.preferences.get().shortcuts.pushToTalkKey;
+    return code !== null && event.code === code && !event.altKey && !event.ctrlKey && !event.metaKey;
+  }
+
+  // Keys that type or activate something are left alone where they would do that
+  private isFreeKey(event: KeyboardEvent): boolean {
+    const target = targetOf(event);
+    if (!target) {
+      return true;
+    }
+    if (event.code === 'Space') {
+      return !target.closest(SPACE_TARGETS);
+    }
+    if (event.key.length === 1 && !event.altKey && !event.ctrlKey && !event.metaKey) {
+      return !target.closest(TEXT_ENTRY);
+    }
+    return true;
+  }
+}
+
+export default KeyboardShortcutService;
@@ -0,0 +1,82 @@
+// Local Search Provider for BlindAssist - Search answered from built-in sample pages
+// Needs no network or server; used by default and for offline development
+
+import type { SearchProvider, SearchRequest, SearchResult } from './SearchProvider';
+import { SEARCH_FIXTURES, SearchFixture } from './SearchFixtures';
+import { wait } from './OperationTrackerService';
+
+const PAGE_SIZE = 5;
+// Long enough that the progress message is heard before the results
+const RESPONSE_DELAY_MS = 400;
+
+// Words too common to say anything about what a page is about
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'of', 'for', 'to', 'in', 'on', 'is', 'are', 'how', 'what', 'with', 'about', 'do', 'i', 'my']);
+
+function terms(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word && !STOP_WORDS.has(word));
+}
+
+// Share of the query's words the page mentions, keywords and titles counting most
+function score(fixture: SearchFixture, queryTerms: string[]): number {
+  const keywords = new Set(fixture.keywords);
+  const title = new Set(terms(fixture.title));
+  const description = new Set(terms(fixture.description));
+  const points = queryTerms.reduce((total, term) =>
+    total + (keywords.has(term) ? 1 : title.has(term) ? 0.8 : description.has(term) ? 0.5 : 0), 0);
+  return points / queryTerms.length;
+}
+
+// Pages for any topic, after the samples that matched
+function generalResults(query: string): SearchResult[] {
+  const encoded = encodeURIComponent(query);
+  return [
+    {
+      title: `${query} - Wikipedia`,
+      url: `https://en.wikipedia.org/wiki/Special:Search?search=${encoded}`,
+      description: `Encyclopedia articles about ${query}, with background, history and references to further reading.`,
+      source: 'Wikipedia',
+      timestamp: '',
+      relevanceScore: 0.3
+    },
+    {
+      title: `${query} - News coverage`,
+      url: `https://news.google.com/search?q=${encoded}`,
+      description: `Recent news coverage about ${query} from a range of publishers.`,
+      source: 'Google News',
+      timestamp: '',
+      relevanceScore: 0.25
+    },
+    {
+      title: `${query} - Web results`,
+      url: `https://duckduckgo.com/?q=${encoded}`,
+      description: `General web results for ${query}. The built-in search only has sample pages; choose a search server in settings for live results.`,
+      source: 'DuckDuckGo',
+      timestamp: '',
+      relevanceScore: 0.2
+    }
+  ];
+}
+
+class LocalSearchProvider implements SearchProvider {
+  readonly id = 'local' as const;
+
+  async search({ query, page, signal }: SearchRequest): Promise<SearchResult[]> {
+    await wait(RESPONSE_DELAY_MS, signal);
+
+    const queryTerms = terms(query);
+    const matches = queryTerms.length === 0 ? [] : SEARCH_FIXTURES
+      .map(fixture => ({ fixture, relevance: score(fixture, queryTerms) }))
+      .filter(({ relevance }) => relevance > 0)
+      .sort((a, b) => b.relevance - a.relevance)
+      .map(({ fixture: { keywords, ...result }, relevance }): SearchResult => ({
+        ...result,
+        timestamp: '',
+        relevanceScore: Math.round(relevance * 100) / 100
+      }));
+
+    const results = [...matches, ...generalResults(query)];
+    return results.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+  }
+}
+
+export default LocalSearchProvider;
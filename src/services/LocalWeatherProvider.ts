@@ -0,0 +1,90 @@
+// Local Weather Provider for BlindAssist - Forecasts from built-in sample weeks
+// Needs no network; a position anywhere gets the weather of the nearest sample city
+
+import type {
+  DailyForecast,
+  HourlyForecast,
+  WeatherLocation,
+  WeatherProvider,
+  WeatherReport,
+  WeatherRequest
+} from './WeatherProvider';
+import { WEATHER_FIXTURES, WeatherFixture } from './WeatherFixtures';
+import { wait } from './OperationTrackerService';
+
+const FORECAST_HOURS = 24;
+// Long enough that the progress message is heard before the answer
+const RESPONSE_DELAY_MS = 300;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// "2026-10-19", in the device's own time zone
+function isoDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Coldest around 5 am, warmest around 3 pm
+function temperatureAt(hour: number, { high, low }: DailyForecast): number {
+  const warming = hour >= 5 && hour < 15;
+  const progress = warming ? (hour - 5) / 10 : ((hour - 15 + 24) % 24) / 14;
+  const warmth = (1 - Math.cos(progress * Math.PI)) / 2;
+  return Math.round((low + (high - low) * (warming ? warmth : 1 - warmth)) * 10) / 10;
+}
+
+function nearest(latitude: number, longitude: number): WeatherFixture {
+  const distance = (fixture: WeatherFixture) =>
+    (fixture.latitude - latitude) ** 2 + (fixture.longitude - longitude) ** 2;
+  return WEATHER_FIXTURES.reduce((best, fixture) => (distance(fixture) < distance(best) ? fixture : best));
+}
+
+class LocalWeatherProvider implements WeatherProvider {
+  readonly id = 'local' as const;
+
+  async findLocation(name: string, { signal }: WeatherRequest): Promise<WeatherLocation[]> {
+    await wait(RESPONSE_DELAY_MS, signal);
+    const spoken = name.toLowerCase().trim();
+    return WEATHER_FIXTURES
+      .filter(fixture => fixture.aliases.includes(spoken) || fixture.name.toLowerCase().startsWith(spoken))
+      .map(({ name: fullName, latitude, longitude }) => ({ name: fullName, latitude, longitude }));
+  }
+
+  async forecast(location: WeatherLocation, { signal }: WeatherRequest): Promise<WeatherReport> {
+    await wait(RESPONSE_DELAY_MS, signal);
+    const fixture = nearest(location.latitude, location.longitude);
+    const now = new Date();
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+    const daily: DailyForecast[] = fixture.week.map((sample, index) => ({
+      ...sample,
+      date: isoDate(new Date(today.getTime() + index * DAY_MS))
+    }));
+    const hourly: HourlyForecast[] = Array.from({ length: FORECAST_HOURS }, (_, offset) => {
+      const time = new Date(now.getFullYear(), now.getMonth(), now.getDate(), now.getHours() + offset);
+      const dayIndex = Math.round((new Date(time.getFullYear(), time.getMonth(), time.getDate()).getTime() - today.getTime()) / DAY_MS);
+      const forecast = daily[Math.min(dayIndex, daily.length - 1)];
+      return {
+        time: `${isoDate(time)}T${String(time.getHours()).padStart(2, '0')}:00`,
+        temperature: temperatureAt(time.getHours(), forecast),
+        condition: forecast.condition,
+        precipitationChance: forecast.precipitationChance
+      };
+    });
+
+    return {
+      location,
+      current: {
+        temperature: hourly[0].temperature,
+        feelsLike: hourly[0].temperature,
+        condition: daily[0].condition,
+        humidity: fixture.humidity,
+        windSpeed: Math.round(daily[0].maxWindSpeed * 0.6)
+      },
+      hourly,
+      daily
+    };
+  }
+}
+
+export default LocalWeatherProvider;
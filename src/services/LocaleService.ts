@@ -0,0 +1,79 @@
+// Locale Service for BlindAssist - The language BlindAssist listens, speaks and formats in
+// Reads the language preference at use time so a change applies to the next utterance
+
+import PreferencesService, { LocaleCode } from './PreferencesService';
+
+// Replies are still written in English; a voice for another language reads them with its accent
+const REPLY_LANGUAGE = 'en';
+
+// "hi-IN" and "hi_IN" both reduce to "hi"
+function languageOf(tag: string): string {
+  return tag.toLowerCase().split(/[-_]/)[0];
+}
+
+class LocaleService {
+  private static instance: LocaleService;
+  private preferences = PreferencesService.getInstance();
+
+  static getInstance(): LocaleService {
+    if (!LocaleService.instance) {
+      LocaleService.instance = new LocaleService();
+    }
+    return LocaleService.instance;
+  }
+
+  getLocale(): LocaleCode {
+    return this.preferences.get().language.locale;
+  }
+
+  // Dates, times and numbers go into spoken replies, so they follow the reply language
+  formatDate(date: Date): string {
+    return date.toLocaleDateString(this.getSpeechLocale(), {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
+  }
+
+  formatTime(date: Date): string {
+    // The locale decides between a 12 and 24 hour clock
+    return date.toLocaleTimeString(this.getSpeechLocale(), {
+      hour: 'numeric',
+      minute: '2-digit'
+    });
+  }
+
+  /** The language replies are written in; numbers are grouped its way, as "1,234.5" rather than "1.234,5". */
+  getReplyLanguage(): string {
+    return REPLY_LANGUAGE;
+  }
+
+  /** The language replies are spoken in, with the region of the current locale: "en-IN" for Hindi. */
+  getSpeechLocale(): string {
+    const [, region] = this.getLocale().split('-');
+    return `${REPLY_LANGUAGE}-${region}`;
+  }
+
+  /** Whether a voice can read replies; only these are worth offering in settings. */
+  speaksReplies(voice: SpeechSynthesisVoice): boolean {
+    return languageOf(voice.lang) === REPLY_LANGUAGE;
+  }
+
+  /**
+   * The voice to speak with: the preferred voice when it speaks the language
+   * replies are written in, otherwise the closest installed voice for it,
+   * preferring the current locale's region.
+   */
+  pickVoice(voices: SpeechSynthesisVoice[], preferredURI: string | null): SpeechSynthesisVoice | undefined {
+    const speechLocale = this.getSpeechLocale();
+    const preferred = preferredURI ? voices.find(voice => voice.voiceURI === preferredURI) : undefined;
+    if (preferred && this.speaksReplies(preferred)) {
+      return preferred;
+    }
+    return voices.find(voice => voice.lang.replace('_', '-') === speechLocale)
+      ?? voices.find(voice => this.speaksReplies(voice));
+  }
+}
+
+export default LocaleService;
@@ -0,0 +1,235 @@
+// News Feed Service for BlindAssist - Headlines gathered from the user's RSS, Atom and JSON feeds
+// The feed list is saved in localStorage; stories are merged, deduplicated and read newest first
+
+import type { NewsItem } from './SearchService';
+import { FeedEntry, parseFeed } from './FeedParser';
+import ResponseCacheService, { Staleness } from './ResponseCacheService';
+import { isAbortError } from './OperationTrackerService';
+
+export interface NewsFeed {
+  id: string;
+  name: string;
+  // An http(s) address, or a path on this site such as /feeds/sample.xml
+  url: string;
+  enabled: boolean;
+}
+
+export type NewsFeedListener = (feeds: NewsFeed[]) => void;
+
+export type FeedSaveResult = { ok: true; feed: NewsFeed } | { ok: false; reason: string };
+
+interface MergedHeadlines {
+  headlines: NewsItem[];
+  // Feeds that failed while others answered
+  unreachable: string[];
+}
+
+export type HeadlinesResult =
+  | ({ ok: true; stale: Staleness | null } & MergedHeadlines)
+  | { ok: false; reason: string };
+
+// Served from public/, so headlines work without a network connection
+export const SAMPLE_FEED: NewsFeed = {
+  id: 'sample',
+  name: 'BlindAssist Sample News',
+  url: '/feeds/sample.xml',
+  enabled: true
+};
+
+// Each headline is read with its summary, so a longer list gets tiring to listen to
+const MAX_HEADLINES = 5;
+
+const STORAGE_KEY = 'blindassist.newsFeeds';
+
+// The same story syndicated by two feeds, with or without tracking parameters
+function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    [...parsed.searchParams.keys()].filter(key => key.startsWith('utm_')).forEach(key => parsed.searchParams.delete(key));
+    return `${parsed.hostname.replace(/^www\./, '')}${parsed.pathname.replace(/\/$/, '')}${parsed.search}`;
+  } catch (error) {
+    return url;
+  }
+}
+
+function normalizeHeadline(headline: string): string {
+  return headline.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+// Stable across fetches, so a story keeps its id while it stays in the feed
+function storyId(text: string): string {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+function toNewsItem(entry: FeedEntry, feed: NewsFeed): NewsItem {
+  return {
+    id: storyId(`${feed.id}:${entry.id || entry.title}`),
+    headline: entry.title,
+    summary: entry.summary,
+    source: feed.name,
+    publishedAt: entry.publishedAt,
+    url: entry.url,
+    category: entry.categories[0]?.toLowerCase() ?? 'general'
+  };
+}
+
+class NewsFeedService {
+  private static instance: NewsFeedService;
+  private feeds: NewsFeed[];
+  private listeners = new Set<NewsFeedListener>();
+  private cache = ResponseCacheService.getInstance();
+
+  private constructor() {
+    this.feeds = this.load();
+  }
+
+  static getInstance(): NewsFeedService {
+    if (!NewsFeedService.instance) {
+      NewsFeedService.instance = new NewsFeedService();
+    }
+    return NewsFeedService.instance;
+  }
+
+  getFeeds(): NewsFeed[] {
+    return this.feeds;
+  }
+
+  /** Add a feed, or replace the one with the same id. */
+  save(name: string, url: string, id?: string): FeedSaveResult {
+    const address = url.trim();
+    if (!address) {
+      return { ok: false, reason: 'Please enter the feed address.' };
+    }
+    if (!address.startsWith('/')) {
+      try {
+        const { protocol } = new URL(address);
+        if (protocol !== 'http:' && protocol !== 'https:') {
+          throw new Error(protocol);
+        }
+      } catch (error) {
+        return { ok: false, reason: 'Please enter a web address starting with http:// or https://.' };
+      }
+    }
+    if (this.feeds.some(feed => feed.url === address && feed.id !== id)) {
+      return { ok: false, reason: 'That feed is already in your list.' };
+    }
+
+    const existing = this.feeds.find(feed => feed.id === id);
+    const feed: NewsFeed = {
+      id: id ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      name: name.trim() || new URL(address, window.location.href).hostname,
+      url: address,
+      enabled: existing?.enabled ?? true
+    };
+    this.set(existing
+      ? this.feeds.map(current => (current.id === feed.id ? feed : current))
+      : [...this.feeds, feed]);
+    return { ok: true, feed };
+  }
+
+  setEnabled(id: string, enabled: boolean): void {
+    this.set(this.feeds.map(feed => (feed.id === id ? { ...feed, enabled } : feed)));
+  }
+
+  remove(id: string): void {
+    this.set(this.feeds.filter(feed => feed.id !== id));
+  }
+
+  subscribe(listener: NewsFeedListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Newest stories across the enabled feeds, reused for a while once fetched.
+   * Fails only when none of the feeds answer and nothing was saved from them.
+   */
+  async fetchHeadlines(signal?: AbortSignal): Promise<HeadlinesResult> {
+    const feeds = this.feeds.filter(feed => feed.enabled);
+    if (feeds.length === 0) {
+      return { ok: false, reason: 'All your news sources are turned off. You can turn them on in Settings.' };
+    }
+
+    try {
+      // Saved per set of feeds, so turning one off is not answered from the old list
+      const key = feeds.map(feed => feed.url).sort().join(' ');
+      const { value, stale } = await this.cache.fetch('headlines', key, () => this.mergeFeeds(feeds, signal), { signal });
+      // Which feeds failed back then says nothing about now
+      return { ok: true, headlines: value.headlines, unreachable: stale ? [] : value.unreachable, stale };
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      return { ok: false, reason: `I could not reach ${feeds.length === 1 ? 'your news source' : 'any of your news sources'}.` };
+    }
+  }
+
+  private async mergeFeeds(feeds: NewsFeed[], signal?: AbortSignal): Promise<MergedHeadlines> {
+    const results = await Promise.allSettled(feeds.map(feed => this.fetchFeed(feed, signal)));
+    signal?.throwIfAborted();
+    const unreachable = feeds.filter((_, index) => results[index].status === 'rejected').map(feed => feed.name);
+    if (unreachable.length === feeds.length) {
+      throw new Error('No news feed could be reached');
+    }
+
+    const stories = results
+      .flatMap(result => (result.status === 'fulfilled' ? result.value : []))
+      // Undated stories go last; ISO dates sort as text
+      .sort((a, b) => b.publishedAt.localeCompare(a.publishedAt));
+    const seen = new Set<string>();
+    const headlines = stories.filter(story => {
+      const keys = [normalizeHeadline(story.headline), story.url && normalizeUrl(story.url)].filter(Boolean);
+      if (keys.some(key => seen.has(key))) {
+        return false;
+      }
+      keys.forEach(key => seen.add(key));
+      return true;
+    });
+    return { headlines: headlines.slice(0, MAX_HEADLINES), unreachable };
+  }
+
+  private async fetchFeed(feed: NewsFeed, signal?: AbortSignal): Promise<NewsItem[]> {
+    const response = await fetch(feed.url, { signal });
+    if (!response.ok) {
+      throw new Error(`Feed ${feed.url} returned ${response.status}`);
+    }
+    const parsed = parseFeed(await response.text());
+    if (parsed.ok === false) {
+      console.error(`News feed ${feed.url}:`, parsed.reason);
+      throw new Error(parsed.reason);
+    }
+    return parsed.feed.entries.map(entry => toNewsItem(entry, feed));
+  }
+
+  private set(feeds: NewsFeed[]): void {
+    this.feeds = feeds;
+    this.persist();
+    this.listeners.forEach(listener => listener(feeds));
+  }
+
+  private load(): NewsFeed[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? (JSON.parse(stored) as NewsFeed[]) : [SAMPLE_FEED];
+    } catch (error) {
+      console.error('News feeds load error:', error);
+      return [SAMPLE_FEED];
+    }
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.feeds));
+    } catch (error) {
+      console.error('News feeds save error:', error);
+    }
+  }
+}
+
+export default NewsFeedService;
@@ -0,0 +1,122 @@
+// Open-Meteo Weather Provider for BlindAssist - Forecasts from the free Open-Meteo API
+// Needs no API key; self-hosted Open-Meteo servers answer the same requests
+
+import {
+  conditionFromCode,
+  WeatherLocation,
+  WeatherProvider,
+  WeatherReport,
+  WeatherRequest
+} from './WeatherProvider';
+
+const FORECAST_URL = 'https://api.open-meteo.com/v1/forecast';
+const GEOCODING_URL = 'https://geocoding-api.open-meteo.com/v1/search';
+const FORECAST_DAYS = 7;
+const FORECAST_HOURS = 24;
+const MAX_PLACES = 5;
+
+interface GeocodingResponse {
+  results?: { name: string; latitude: number; longitude: number; country?: string; admin1?: string }[];
+}
+
+interface ForecastResponse {
+  current: {
+    time: string;
+    temperature_2m: number;
+    apparent_temperature: number;
+    relative_humidity_2m: number;
+    weather_code: number;
+    wind_speed_10m: number;
+  };
+  hourly: {
+    time: string[];
+    temperature_2m: number[];
+    weather_code: number[];
+    precipitation_probability: (number | null)[];
+  };
+  daily: {
+    time: string[];
+    weather_code: number[];
+    temperature_2m_max: number[];
+    temperature_2m_min: number[];
+    precipitation_probability_max: (number | null)[];
+    precipitation_sum: number[];
+    wind_speed_10m_max: number[];
+  };
+}
+
+async function getJson<T>(url: URL, signal?: AbortSignal): Promise<T> {
+  const response = await fetch(url, { signal, headers: { Accept: 'application/json' } });
+  if (!response.ok) {
+    throw new Error(`Open-Meteo responded with ${response.status}`);
+  }
+  return await response.json() as T;
+}
+
+class OpenMeteoWeatherProvider implements WeatherProvider {
+  readonly id = 'open-meteo' as const;
+
+  constructor(private forecastUrl = FORECAST_URL, private geocodingUrl = GEOCODING_URL) {}
+
+  async findLocation(name: string, { locale, signal }: WeatherRequest): Promise<WeatherLocation[]> {
+    const url = new URL(this.geocodingUrl);
+    url.searchParams.set('name', name);
+    url.searchParams.set('count', String(MAX_PLACES));
+    url.searchParams.set('language', locale.split('-')[0]);
+    url.searchParams.set('format', 'json');
+
+    const { results = [] } = await getJson<GeocodingResponse>(url, signal);
+    return results.map(place => ({
+      // "Hyderabad, Telangana, India" without repeating a region named like the city
+      name: [place.name, place.admin1, place.country]
+        .filter((part, index, parts) => part && parts.indexOf(part) === index)
+        .join(', '),
+      latitude: place.latitude,
+      longitude: place.longitude
+    }));
+  }
+
+  async forecast(location: WeatherLocation, { signal }: WeatherRequest): Promise<WeatherReport> {
+    const url = new URL(this.forecastUrl);
+    url.searchParams.set('latitude', String(location.latitude));
+    url.searchParams.set('longitude', String(location.longitude));
+    url.searchParams.set('current', 'temperature_2m,apparent_temperature,relative_humidity_2m,weather_code,wind_speed_10m');
+    url.searchParams.set('hourly', 'temperature_2m,weather_code,precipitation_probability');
+    url.searchParams.set('daily', 'weather_code,temperature_2m_max,temperature_2m_min,precipitation_probability_max,precipitation_sum,wind_speed_10m_max');
+    url.searchParams.set('timezone', 'auto');
+    url.searchParams.set('forecast_days', String(FORECAST_DAYS));
+
+    const { current, hourly, daily } = await getJson<ForecastResponse>(url, signal);
+    // Hourly times are whole hours; keep the current one onwards
+    const currentHour = current.time.slice(0, 13);
+    const firstHour = Math.max(hourly.time.findIndex(time => time.slice(0, 13) >= currentHour), 0);
+
+    return {
+      location,
+      current: {
+        temperature: current.temperature_2m,
+        feelsLike: current.apparent_temperature,
+        condition: conditionFromCode(current.weather_code),
+        humidity: current.relative_humidity_2m,
+        windSpeed: current.wind_speed_10m
+      },
+      hourly: hourly.time.slice(firstHour, firstHour + FORECAST_HOURS).map((time, offset) => ({
+        time,
+        temperature: hourly.temperature_2m[firstHour + offset],
+        condition: conditionFromCode(hourly.weather_code[firstHour + offset]),
+        precipitationChance: hourly.precipitation_probability[firstHour + offset] ?? 0
+      })),
+      daily: daily.time.map((date, index) => ({
+        date,
+        condition: conditionFromCode(daily.weather_code[index]),
+        high: daily.temperature_2m_max[index],
+        low: daily.temperature_2m_min[index],
+        precipitationChance: daily.precipitation_probability_max[index] ?? 0,
+        precipitation: daily.precipitation_sum[index],
+        maxWindSpeed: daily.wind_speed_10m_max[index]
+      }))
+    };
+  }
+}
+
+export default OpenMeteoWeatherProvider;
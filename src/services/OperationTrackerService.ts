@@ -0,0 +1,102 @@
+// Operation Tracker Service for BlindAssist - Every piece of work still in flight, cancellable at once
+// "Stop", Escape and the emergency stop abort them all, so nothing speaks after the user asked for silence
+
+export interface Operation {
+  id: number;
+  // What is running, e.g. "weather" or "search for cats"
+  label: string;
+  signal: AbortSignal;
+  // Epoch milliseconds
+  startedAt: number;
+}
+
+export interface TrackedOperation extends Operation {
+  // Call when the work is done, whether it succeeded or not
+  finish: () => void;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/** Resolves after `ms`, or rejects with an AbortError as soon as `signal` is aborted. */
+export function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timeout);
+      reject(new DOMException('Operation cancelled', 'AbortError'));
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) {
+      abort();
+    } else {
+      signal?.addEventListener('abort', abort, { once: true });
+    }
+  });
+}
+
+class OperationTrackerService {
+  private static instance: OperationTrackerService;
+  private operations: Operation[] = [];
+  private controllers = new Map<number, AbortController>();
+  private nextId = 1;
+
+  static getInstance(): OperationTrackerService {
+    if (!OperationTrackerService.instance) {
+      OperationTrackerService.instance = new OperationTrackerService();
+    }
+    return OperationTrackerService.instance;
+  }
+
+  /** What is running right now, oldest first. */
+  getOperations(): Operation[] {
+    return this.operations;
+  }
+
+  /** Register new work; it stays tracked until `finish` is called or it is aborted. */
+  start(label: string): TrackedOperation {
+    const controller = new AbortController();
+    const operation: Operation = { id: this.nextId++, label, signal: controller.signal, startedAt: Date.now() };
+    this.controllers.set(operation.id, controller);
+    this.operations = [...this.operations, operation];
+    return { ...operation, finish: () => this.remove(operation.id) };
+  }
+
+  /** Run `task` as a tracked operation, finishing it however the task ends. */
+  async run<T>(label: string, task: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const operation = this.start(label);
+    try {
+      return await task(operation.signal);
+    } finally {
+      operation.finish();
+    }
+  }
+
+  /** Abort one operation, e.g. a search replaced by a newer one. */
+  abort(id: number): void {
+    this.controllers.get(id)?.abort();
+    this.remove(id);
+  }
+
+  /** Abort everything in flight; returns how many were running. */
+  abortAll(): number {
+    const count = this.operations.length;
+    const controllers = [...this.controllers.values()];
+    this.controllers.clear();
+    this.operations = [];
+    controllers.forEach(controller => controller.abort());
+    return count;
+  }
+
+  private remove(id: number): void {
+    if (!this.controllers.delete(id)) {
+      return;
+    }
+    this.operations = this.operations.filter(operation => operation.id !== id);
+  }
+}
+
+export default OperationTrackerService;
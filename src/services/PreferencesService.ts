@@ -0,0 +1,221 @@
+// Preferences Service for BlindAssist - User settings persisted in localStorage
+// Components read and update preferences here; services read them at use time
+
+export interface VoicePreferences {
+  voiceURI: string | null;
+  rate: number;
+  pitch: number;
+  volume: number;
+}
+
+export interface WakeWordPreferences {
+  enabled: boolean;
+  phrase: string;
+  // How long commands keep being accepted after the last one; 0 accepts a single command
+  followUpSeconds: number;
+}
+
+export const SUPPORTED_LOCALES = [
+  { code: 'en-US', label: 'English' },
+  { code: 'hi-IN', label: 'हिन्दी (Hindi)' },
+  { code: 'te-IN', label: 'తెలుగు (Telugu)' },
+  { code: 'es-ES', label: 'Español (Spanish)' },
+  { code: 'fr-FR', label: 'Français (French)' }
+] as const;
+
+export type LocaleCode = typeof SUPPORTED_LOCALES[number]['code'];
+
+export interface LanguagePreferences {
+  // Drives recognition, voice selection, date formatting and command phrases
+  locale: LocaleCode;
+}
+
+export const RECOGNITION_ENGINES = ['auto', 'browser', 'whisper'] as const;
+
+export type RecognitionEngine = Exclude<typeof RECOGNITION_ENGINES[number], 'auto'>;
+
+export interface RecognitionPreferences {
+  // 'auto' uses the browser's recognizer when it has one, otherwise the on-device model
+  engine: typeof RECOGNITION_ENGINES[number];
+}
+
+// KeyboardEvent.code values that can be held to talk
+export const PUSH_TO_TALK_KEYS = [
+  { code: 'Space', label: 'Space' },
+  { code: 'Backquote', label: 'Backquote (`)' },
+  { code: 'F2', label: 'F2' },
+  { code: 'F8', label: 'F8' }
+] as const;
+
+export type PushToTalkKey = typeof PUSH_TO_TALK_KEYS[number]['code'];
+
+export interface ShortcutPreferences {
+  // null turns push-to-talk off
+  pushToTalkKey: PushToTalkKey | null;
+}
+
+export const SEARCH_PROVIDERS = ['local', 'searxng'] as const;
+
+export type SearchProviderId = typeof SEARCH_PROVIDERS[number];
+
+export interface SearchPreferences {
+  // 'local' answers from built-in sample pages and needs no network
+  provider: SearchProviderId;
+  // Address of a SearXNG instance, e.g. https://searx.example.org
+  endpoint: string;
+}
+
+export const WEATHER_PROVIDERS = ['open-meteo', 'local'] as const;
+
+export type WeatherProviderId = typeof WEATHER_PROVIDERS[number];
+
+export const TEMPERATURE_UNITS = ['auto', 'celsius', 'fahrenheit'] as const;
+
+export interface WeatherPreferences {
+  // 'local' answers from built-in sample forecasts and needs no network
+  provider: WeatherProviderId;
+  // 'auto' uses Fahrenheit and miles per hour for US English, Celsius and kilometers per hour otherwise
+  units: typeof TEMPERATURE_UNITS[number];
+}
+
+export interface Preferences {
+  voice: VoicePreferences;
+  wakeWord: WakeWordPreferences;
+  language: LanguagePreferences;
+  recognition: RecognitionPreferences;
+  shortcuts: ShortcutPreferences;
+  search: SearchPreferences;
+  weather: WeatherPreferences;
+}
+
+export type PreferencesListener = (preferences: Preferences) => void;
+
+export const VOICE_LIMITS = {
+  rate: { min: 0.5, max: 3, step: 0.1 },
+  pitch: { min: 0, max: 2, step: 0.1 },
+  volume: { min: 0, max: 1, step: 0.05 }
+};
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  voice: {
+    voiceURI: null,
+    rate: 0.8,
+    pitch: 1,
+    volume: 1
+  },
+  wakeWord: {
+    enabled: false,
+    phrase: 'hey blindassist',
+    followUpSeconds: 0
+  },
+  language: {
+    locale: 'en-US'
+  },
+  recognition: {
+    engine: 'auto'
+  },
+  shortcuts: {
+    pushToTalkKey: 'Space'
+  },
+  search: {
+    provider: 'local',
+    endpoint: ''
+  },
+  weather: {
+    provider: 'open-meteo',
+    units: 'auto'
+  }
+};
+
+const STORAGE_KEY = 'blindassist.preferences';
+
+class PreferencesService {
+  private static instance: PreferencesService;
+  private preferences: Preferences;
+  private listeners = new Set<PreferencesListener>();
+
+  private constructor() {
+    this.preferences = this.load();
+  }
+
+  static getInstance(): PreferencesService {
+    if (!PreferencesService.instance) {
+      PreferencesService.instance = new PreferencesService();
+    }
+    return PreferencesService.instance;
+  }
+
+  get(): Preferences {
+    return this.preferences;
+  }
+
+  update<K extends keyof Preferences>(section: K, changes: Partial<Preferences[K]>): void {
+    this.set({ ...this.preferences, [section]: { ...this.preferences[section], ...changes } });
+  }
+
+  reset<K extends keyof Preferences>(section?: K): void {
+    if (section) {
+      this.set({ ...this.preferences, [section]: DEFAULT_PREFERENCES[section] });
+    } else {
+      this.set(DEFAULT_PREFERENCES);
+    }
+  }
+
+  subscribe(listener: PreferencesListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private set(preferences: Preferences): void {
+    this.preferences = preferences;
+    this.save();
+    this.listeners.forEach(listener => listener(preferences));
+  }
+
+  private load(): Preferences {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) {
+        return DEFAULT_PREFERENCES;
+      }
+      const parsed = JSON.parse(stored) as Partial<Preferences>;
+      // Merge section by section so preferences added later get their defaults
+      const merged = { ...DEFAULT_PREFERENCES };
+      (Object.keys(DEFAULT_PREFERENCES) as (keyof Preferences)[]).forEach(section => {
+        merged[section] = { ...DEFAULT_PREFERENCES[section], ...parsed[section] } as never;
+      });
+      if (!SUPPORTED_LOCALES.some(locale => locale.code === merged.language.locale)) {
+        merged.language = DEFAULT_PREFERENCES.language;
+      }
+      if (!RECOGNITION_ENGINES.includes(merged.recognition.engine)) {
+        merged.recognition = DEFAULT_PREFERENCES.recognition;
+      }
+      const { pushToTalkKey } = merged.shortcuts;
+      if (pushToTalkKey !== null && !PUSH_TO_TALK_KEYS.some(key => key.code === pushToTalkKey)) {
+        merged.shortcuts = DEFAULT_PREFERENCES.shortcuts;
+      }
+      if (!SEARCH_PROVIDERS.includes(merged.search.provider)) {
+        merged.search = DEFAULT_PREFERENCES.search;
+      }
+      if (!WEATHER_PROVIDERS.includes(merged.weather.provider) || !TEMPERATURE_UNITS.includes(merged.weather.units)) {
+        merged.weather = DEFAULT_PREFERENCES.weather;
+      }
+      return merged;
+    } catch (error) {
+      console.error('Preferences load error:', error);
+      return DEFAULT_PREFERENCES;
+    }
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.preferences));
+    } catch (error) {
+      console.error('Preferences save error:', error);
+    }
+  }
+}
+
+export default PreferencesService;
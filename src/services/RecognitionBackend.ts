@@ -0,0 +1,31 @@
+// Recognition Backend for BlindAssist - What SpeechRecognitionService needs from a speech-to-text engine
+// Implemented by the browser's own recognizer and by the on-device Whisper model
+
+import type { RecognitionEngine } from './PreferencesService';
+
+export interface RecognitionAlternative {
+  transcript: string;
+  // 0 to 1; left out by engines that do not estimate it, and 0 often means the same in Chrome
+  confidence?: number;
+}
+
+export interface RecognitionCallbacks {
+  // One finished phrase, most likely alternative first
+  onResult: (alternatives: RecognitionAlternative[]) => void;
+  // The phrase so far while it is still being spoken; engines without a live guess never call it
+  onInterim: (transcript: string) => void;
+  onError: (error: string) => void;
+  // The engine stopped listening on its own
+  onEnd: () => void;
+}
+
+export interface RecognitionBackend {
+  readonly engine: RecognitionEngine;
+  isSupported(): boolean;
+  /** Resolves once audio is being listened to; rejects when the engine cannot start. */
+  start(locale: string, callbacks: RecognitionCallbacks): Promise<void>;
+  /** Stop listening, still reporting what was already said, then call onEnd. */
+  finish(): void;
+  /** Stop at once, discarding anything not yet reported. */
+  stop(): void;
+}
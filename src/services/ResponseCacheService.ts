@@ -0,0 +1,189 @@
+// Response Cache Service for BlindAssist - Provider answers saved in IndexedDB
+// Fresh answers are reused without asking again; older ones stand in when offline or a service is down
+
+import ConnectivityService from './ConnectivityService';
+import { isAbortError } from './OperationTrackerService';
+
+export const CACHE_POLICIES = {
+  // Reused without asking again for `freshMs`; kept as a fallback for `keepMs`
+  search: { freshMs: 60 * 60 * 1000, keepMs: 7 * 24 * 60 * 60 * 1000 },
+  weather: { freshMs: 30 * 60 * 1000, keepMs: 2 * 24 * 60 * 60 * 1000 },
+  headlines: { freshMs: 15 * 60 * 1000, keepMs: 3 * 24 * 60 * 60 * 1000 }
+};
+
+export type CacheNamespace = keyof typeof CACHE_POLICIES;
+
+export type StaleReason = 'offline' | 'unreachable';
+
+export interface Staleness {
+  // Epoch milliseconds
+  storedAt: number;
+  reason: StaleReason;
+}
+
+export interface Cached<T> {
+  value: T;
+  // Set when an old answer stood in for a new one
+  stale: Staleness | null;
+}
+
+export interface CacheOptions<T> {
+  // Answers that should be asked again next time, such as "place not found"
+  shouldStore?: (value: T) => boolean;
+  // Also checked when the answer comes from the cache, so a stopped request never answers
+  signal?: AbortSignal;
+}
+
+interface CacheEntry {
+  key: string;
+  value: unknown;
+  storedAt: number;
+}
+
+const DB_NAME = 'blindassist';
+const DB_VERSION = 1;
+const STORE = 'responses';
+
+const KEEP_LONGEST_MS = Math.max(...Object.values(CACHE_POLICIES).map(policy => policy.keepMs));
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function describeAge(ms: number): string {
+  const minutes = Math.round(ms / (60 * 1000));
+  const hours = Math.round(minutes / 60);
+  const days = Math.round(hours / 24);
+  if (minutes < 1) {
+    return 'a moment ago';
+  } else if (minutes < 60) {
+    return `${minutes} minute${minutes !== 1 ? 's' : ''} ago`;
+  } else if (hours < 48) {
+    return `${hours} hour${hours !== 1 ? 's' : ''} ago`;
+  }
+  return `${days} days ago`;
+}
+
+/** "These headlines are from 2 hours ago because you are offline." */
+export function formatStaleNotice(subject: string, stale: Staleness): string {
+  const because = stale.reason === 'offline' ? 'you are offline' : 'the service could not be reached';
+  return `${subject} from ${describeAge(Date.now() - stale.storedAt)} because ${because}.`;
+}
+
+class ResponseCacheService {
+  private static instance: ResponseCacheService;
+  private connectivity = ConnectivityService.getInstance();
+  private database: Promise<IDBDatabase | null> | null = null;
+  // Used instead when IndexedDB is unavailable, e.g. in some private browsing modes
+  private memory = new Map<string, CacheEntry>();
+
+  static getInstance(): ResponseCacheService {
+    if (!ResponseCacheService.instance) {
+      ResponseCacheService.instance = new ResponseCacheService();
+    }
+    return ResponseCacheService.instance;
+  }
+
+  /**
+   * A fresh saved answer, or a new one from `load`. When loading fails with an
+   * answer still kept, that answer is returned marked stale; otherwise the
+   * error is rethrown. Cancelled loads always reject.
+   */
+  async fetch<T>(namespace: CacheNamespace, key: string, load: () => Promise<T>, options: CacheOptions<T> = {}): Promise<Cached<T>> {
+    const policy = CACHE_POLICIES[namespace];
+    const entryKey = `${namespace}:${key}`;
+    const entry = await this.read(entryKey);
+    options.signal?.throwIfAborted();
+    const age = entry ? Date.now() - entry.storedAt : Infinity;
+    if (entry && age < policy.freshMs) {
+      return { value: entry.value as T, stale: null };
+    }
+
+    try {
+      const value = await load();
+      if (options.shouldStore?.(value) ?? true) {
+        await this.write({ key: entryKey, value, storedAt: Date.now() });
+      }
+      return { value, stale: null };
+    } catch (error) {
+      if (isAbortError(error) || !entry || age >= policy.keepMs) {
+        throw error;
+      }
+      console.error(`Using saved ${namespace} response:`, error);
+      return {
+        value: entry.value as T,
+        stale: { storedAt: entry.storedAt, reason: this.connectivity.isOnline() ? 'unreachable' : 'offline' }
+      };
+    }
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.database) {
+      this.database = new Promise<IDBDatabase | null>(resolve => {
+        try {
+          const request = indexedDB.open(DB_NAME, DB_VERSION);
+          request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'key' });
+          request.onsuccess = () => {
+            this.prune(request.result);
+            resolve(request.result);
+          };
+          request.onerror = () => {
+            console.error('Response cache open error:', request.error);
+            resolve(null);
+          };
+        } catch (error) {
+          console.error('Response cache open error:', error);
+          resolve(null);
+        }
+      });
+    }
+    return this.database;
+  }
+
+  private async read(key: string): Promise<CacheEntry | undefined> {
+    const database = await this.open();
+    if (!database) {
+      return this.memory.get(key);
+    }
+    try {
+      return await requestResult<CacheEntry | undefined>(database.transaction(STORE).objectStore(STORE).get(key));
+    } catch (error) {
+      console.error('Response cache read error:', error);
+      return undefined;
+    }
+  }
+
+  private async write(entry: CacheEntry): Promise<void> {
+    const database = await this.open();
+    if (!database) {
+      this.memory.set(entry.key, entry);
+      return;
+    }
+    try {
+      await requestResult(database.transaction(STORE, 'readwrite').objectStore(STORE).put(entry));
+    } catch (error) {
+      console.error('Response cache save error:', error);
+    }
+  }
+
+  // Answers past every keep time are never used again
+  private prune(database: IDBDatabase): void {
+    const cutoff = Date.now() - KEEP_LONGEST_MS;
+    const request = database.transaction(STORE, 'readwrite').objectStore(STORE).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        return;
+      }
+      if ((cursor.value as CacheEntry).storedAt < cutoff) {
+        cursor.delete();
+      }
+      cursor.continue();
+    };
+  }
+}
+
+export default ResponseCacheService;
@@ -0,0 +1,97 @@
+// Response Replay Service for BlindAssist - Repeats earlier responses on request
+// Walks back through the conversation history without adding to it
+
+import ConversationHistoryService, { HistoryEntry } from './ConversationHistoryService';
+import SpeechOutputService from './SpeechOutputService';
+import PreferencesService, { VOICE_LIMITS } from './PreferencesService';
+
+export type ReplayStyle = 'normal' | 'slower' | 'spelled';
+
+// "Slower" replays at this fraction of the preferred rate
+const SLOWER_FACTOR = 0.7;
+
+/** Spell each word letter by letter, pausing between words. */
+export function spellOut(text: string): string {
+  return text
+    .split(/\s+/)
+    .map(word => word.replace(/[^\p{L}\p{N}]/gu, ''))
+    .filter(word => word.length > 0)
+    .map(word => word.toUpperCase().split('').join(' '))
+    .join('. ');
+}
+
+class ResponseReplayService {
+  private static instance: ResponseReplayService;
+  private history = ConversationHistoryService.getInstance();
+  private speech = SpeechOutputService.getInstance();
+  // Response last replayed, and the newest response at that moment; a new
+  // response since then means "repeat" should start from the latest again
+  private cursorId: number | null = null;
+  private newestId: number | null = null;
+
+  static getInstance(): ResponseReplayService {
+    if (!ResponseReplayService.instance) {
+      ResponseReplayService.instance = new ResponseReplayService();
+    }
+    return ResponseReplayService.instance;
+  }
+
+  /** Replay the response last repeated, or the latest one. */
+  repeat(style: ReplayStyle = 'normal'): void {
+    const responses = this.history.getResponses();
+    const index = this.cursorIndex(responses);
+    const entry = responses[index === -1 ? 0 : index];
+    if (!entry) {
+      this.notice('I have not said anything yet.');
+      return;
+    }
+    this.play(entry, responses, style);
+  }
+
+  /** Step one response further back than the last one repeated. */
+  previous(): void {
+    const responses = this.history.getResponses();
+    if (responses.length === 0) {
+      this.notice('I have not said anything yet.');
+      return;
+    }
+    const index = this.cursorIndex(responses);
+    const entry = responses[index === -1 ? 1 : index + 1];
+    if (!entry) {
+      this.notice('That was the first thing I said.');
+      return;
+    }
+    this.play(entry, responses, 'normal');
+  }
+
+  private cursorIndex(responses: HistoryEntry[]): number {
+    if (this.cursorId === null || responses[0]?.id !== this.newestId) {
+      return -1;
+    }
+    return responses.findIndex(entry => entry.id === this.cursorId);
+  }
+
+  private play(entry: HistoryEntry, responses: HistoryEntry[], style: ReplayStyle): void {
+    this.cursorId = entry.id;
+    this.newestId = responses[0].id;
+
+    if (style === 'spelled') {
+      this.speech.speak(spellOut(entry.text), { interrupt: true });
+    } else if (style === 'slower') {
+      const { rate } = PreferencesService.getInstance().get().voice;
+      this.speech.speak(entry.text, {
+        interrupt: true,
+        rate: Math.max(VOICE_LIMITS.rate.min, rate * SLOWER_FACTOR)
+      });
+    } else {
+      this.speech.speak(entry.text, { interrupt: true });
+    }
+  }
+
+  // Spoken directly so the notice itself never becomes "the last thing I said"
+  private notice(text: string): void {
+    this.speech.speak(text, { interrupt: true });
+  }
+}
+
+export default ResponseReplayService;
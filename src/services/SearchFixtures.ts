@@ -0,0 +1,140 @@
+// Search Fixtures for BlindAssist - Sample pages answered by the local search provider
+// Real pages on accessibility topics, so searches work without a network or a search server
+
+export interface SearchFixture {
+  title: string;
+  url: string;
+  description: string;
+  source: string;
+  // Words a query is likely to use that the title and description may not
+  keywords: string[];
+}
+
+export const SEARCH_FIXTURES: SearchFixture[] = [
+  {
+    title: 'Web Content Accessibility Guidelines (WCAG) 2.2',
+    url: 'https://www.w3.org/TR/WCAG22/',
+    description: 'The W3C recommendation that sets out how to make web content more accessible to people with disabilities, organised under the principles perceivable, operable, understandable and robust.',
+    source: 'W3C',
+    keywords: ['wcag', 'accessibility', 'web', 'guidelines', 'standard', 'website', 'a11y']
+  },
+  {
+    title: 'WAI-ARIA Authoring Practices Guide',
+    url: 'https://www.w3.org/WAI/ARIA/apg/',
+    description: 'Patterns and examples for building accessible widgets such as menus, tabs and dialogs with ARIA roles, states and properties, including the keyboard interaction each one expects.',
+    source: 'W3C',
+    keywords: ['aria', 'accessibility', 'web', 'developer', 'keyboard', 'widgets', 'a11y']
+  },
+  {
+    title: 'NVDA screen reader',
+    url: 'https://www.nvaccess.org/',
+    description: 'NonVisual Desktop Access is a free, open source screen reader for Windows that reads the screen aloud with synthetic speech or shows it on a braille display.',
+    source: 'NV Access',
+    keywords: ['nvda', 'screen', 'reader', 'windows', 'free', 'blind', 'software']
+  },
+  {
+    title: 'VoiceOver User Guide for iPhone',
+    url: 'https://support.apple.com/guide/iphone/turn-on-and-practice-voiceover-iph3e2e415f/ios',
+    description: 'How to turn on VoiceOver, the gesture-based screen reader built into iPhone, and practise the gestures for moving around the screen, reading text and activating items.',
+    source: 'Apple Support',
+    keywords: ['voiceover', 'iphone', 'ios', 'apple', 'screen', 'reader', 'gestures', 'phone']
+  },
+  {
+    title: 'Get started on Android with TalkBack',
+    url: 'https://support.google.com/accessibility/android/answer/6283677',
+    description: 'TalkBack is the Google screen reader included on Android devices. It gives spoken feedback so you can use your device without looking at the screen.',
+    source: 'Android Accessibility Help',
+    keywords: ['talkback', 'android', 'google', 'screen', 'reader', 'phone']
+  },
+  {
+    title: 'Braille',
+    url: 'https://en.wikipedia.org/wiki/Braille',
+    description: 'Braille is a tactile writing system used by people who are visually impaired, read by touch from raised dots arranged in cells of six, and named after its creator Louis Braille.',
+    source: 'Wikipedia',
+    keywords: ['braille', 'reading', 'writing', 'tactile', 'history', 'louis']
+  },
+  {
+    title: 'Refreshable braille display',
+    url: 'https://en.wikipedia.org/wiki/Refreshable_braille_display',
+    description: 'An electro-mechanical device that raises round-tipped pins through holes in a flat surface to display braille characters, used alongside a screen reader to read a computer or phone.',
+    source: 'Wikipedia',
+    keywords: ['braille', 'display', 'device', 'hardware', 'screen', 'reader']
+  },
+  {
+    title: 'American Foundation for the Blind',
+    url: 'https://www.afb.org/',
+    description: 'The American Foundation for the Blind works to create a world of no limits for people who are blind or have low vision, through research, advocacy and information on living with vision loss.',
+    source: 'AFB',
+    keywords: ['blind', 'low', 'vision', 'loss', 'charity', 'support', 'advocacy', 'usa']
+  },
+  {
+    title: 'RNIB - Royal National Institute of Blind People',
+    url: 'https://www.rnib.org.uk/',
+    description: 'RNIB offers practical and emotional support for blind and partially sighted people in the UK, including a helpline, talking books and advice on technology.',
+    source: 'RNIB',
+    keywords: ['blind', 'partially', 'sighted', 'vision', 'support', 'charity', 'uk', 'talking', 'books']
+  },
+  {
+    title: 'Guide dog',
+    url: 'https://en.wikipedia.org/wiki/Guide_dog',
+    description: 'Guide dogs are assistance dogs trained to lead blind and visually impaired people around obstacles, and their training, history and legal rights in many countries.',
+    source: 'Wikipedia',
+    keywords: ['guide', 'dog', 'dogs', 'mobility', 'assistance', 'animal']
+  },
+  {
+    title: 'White cane',
+    url: 'https://en.wikipedia.org/wiki/White_cane',
+    description: 'A white cane is used by many people who are blind or visually impaired, both as a mobility tool and as a courtesy to others, with long canes, guide canes and identification canes in use.',
+    source: 'Wikipedia',
+    keywords: ['white', 'cane', 'mobility', 'walking', 'navigation', 'orientation']
+  },
+  {
+    title: 'Bookshare: an accessible online library',
+    url: 'https://www.bookshare.org/',
+    description: 'Bookshare provides ebooks in audio, braille, large font and other formats for people with reading barriers, free for qualifying students in the United States.',
+    source: 'Bookshare',
+    keywords: ['books', 'ebooks', 'library', 'audio', 'reading', 'students', 'audiobooks']
+  },
+  {
+    title: 'Be My Eyes',
+    url: 'https://www.bemyeyes.com/',
+    description: 'Be My Eyes is a free app that connects blind and low vision people with sighted volunteers and companies through a live video call for help with everyday tasks.',
+    source: 'Be My Eyes',
+    keywords: ['app', 'volunteers', 'video', 'help', 'phone', 'camera', 'sighted']
+  },
+  {
+    title: 'Speech synthesis',
+    url: 'https://en.wikipedia.org/wiki/Speech_synthesis',
+    description: 'Speech synthesis is the artificial production of human speech. A text-to-speech system converts written text into speech and is widely used by screen readers.',
+    source: 'Wikipedia',
+    keywords: ['speech', 'synthesis', 'text', 'tts', 'voice', 'synthesizer']
+  },
+  {
+    title: 'Speech recognition',
+    url: 'https://en.wikipedia.org/wiki/Speech_recognition',
+    description: 'Speech recognition lets computers turn spoken language into text, powering voice assistants, dictation and hands-free control of devices.',
+    source: 'Wikipedia',
+    keywords: ['speech', 'recognition', 'voice', 'dictation', 'assistant', 'commands']
+  },
+  {
+    title: 'Web Speech API',
+    url: 'https://developer.mozilla.org/en-US/docs/Web/API/Web_Speech_API',
+    description: 'The Web Speech API lets web pages recognize speech and read text aloud, through the SpeechRecognition and SpeechSynthesis interfaces.',
+    source: 'MDN Web Docs',
+    keywords: ['speech', 'api', 'browser', 'javascript', 'web', 'recognition', 'synthesis', 'developer']
+  },
+  {
+    title: 'Visual impairment',
+    url: 'https://en.wikipedia.org/wiki/Visual_impairment',
+    description: 'Visual impairment is a decreased ability to see to a degree that causes problems not fixable by usual means such as glasses, covering its causes, diagnosis, management and prevalence.',
+    source: 'Wikipedia',
+    keywords: ['visual', 'impairment', 'blindness', 'vision', 'loss', 'low', 'sight', 'eyes']
+  },
+  {
+    title: 'Blindness and vision impairment fact sheet',
+    url: 'https://www.who.int/news-room/fact-sheets/detail/blindness-and-visual-impairment',
+    description: 'World Health Organization key facts on blindness and vision impairment worldwide, their main causes such as cataract and uncorrected refractive errors, and how many cases could be prevented.',
+    source: 'World Health Organization',
+    keywords: ['blindness', 'vision', 'impairment', 'health', 'statistics', 'facts', 'cataract', 'who', 'world']
+  }
+];
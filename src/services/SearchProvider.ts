@@ -0,0 +1,28 @@
+// Search Provider for BlindAssist - What SearchService needs from a web search backend
+// Implemented by a SearXNG instance and by built-in sample pages for offline development
+
+import type { LocaleCode, SearchProviderId } from './PreferencesService';
+
+export interface SearchResult {
+  title: string;
+  url: string;
+  description: string;
+  source: string;
+  // ISO date the page was published; empty when the backend does not know
+  timestamp: string;
+  relevanceScore: number;
+}
+
+export interface SearchRequest {
+  query: string;
+  // 1-based
+  page: number;
+  locale: LocaleCode;
+  signal?: AbortSignal;
+}
+
+export interface SearchProvider {
+  readonly id: SearchProviderId;
+  /** Resolves with the results for one page; rejects with an AbortError when the signal fires. */
+  search(request: SearchRequest): Promise<SearchResult[]>;
+}
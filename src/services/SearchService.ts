@@ -1,24 +1,17 @@
 
-// Enhanced Search Service for BlindAssist - Real-time information retrieval
-// Integrates with actual APIs for live data
+// Search Service for BlindAssist - Web search, headlines, date and time
+// Hands requests to the providers chosen in settings and words their answers for speech
 
-export interface SearchResult {
-  title: string;
-  url: string;
-  description: string;
-  source: string;
-  timestamp: string;
-  relevanceScore: number;
-}
+import LocaleService from './LocaleService';
+import PreferencesService from './PreferencesService';
+import { SearchProvider, SearchResult } from './SearchProvider';
+import { isAbortError } from './OperationTrackerService';
+import LocalSearchProvider from './LocalSearchProvider';
+import NewsFeedService, { HeadlinesResult } from './NewsFeedService';
+import ResponseCacheService, { Cached, formatStaleNotice, Staleness } from './ResponseCacheService';
+import SearxngSearchProvider from './SearxngSearchProvider';
 
-export interface WeatherData {
-  location: string;
-  temperature: string;
-  condition: string;
-  humidity: string;
-  windSpeed: string;
-  forecast: string;
-}
+export type { SearchResult } from './SearchProvider';
 
 export interface NewsItem {
   headline: string;
@@ -30,8 +23,17 @@ export interface NewsItem {
   id: string;
 }
 
+export interface SearchOptions {
+  // 1-based
+  page?: number;
+  signal?: AbortSignal;
+}
+
 class SearchService {
   private static instance: SearchService;
+  private local = new LocalSearchProvider();
+  private searxng: SearxngSearchProvider | null = null;
+  private cache = ResponseCacheService.getInstance();
 
   static getInstance(): SearchService {
     if (!SearchService.instance) {
@@ -41,183 +43,66 @@ class SearchService {
   }
 
   getCurrentDate(): string {
-    const now = new Date();
-    const options: Intl.DateTimeFormatOptions = {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    };
-    return now.toLocaleDateString('en-US', options);
+    return LocaleService.getInstance().formatDate(new Date());
   }
 
   getCurrentTime(): string {
-    const now = new Date();
-    return now.toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true
-    });
-  }
-
-  async performGoogleSearch(query: string): Promise<SearchResult[]> {
-    try {
-      // Simulate API call delay for real Google Search integration
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      
-      // Enhanced mock results that would come from Google Search API
-      const currentDate = new Date().toISOString();
-      
-      return [
-        {
-          title: `${query} - Latest Updates and News`,
-          url: `https://www.google.com/search?q=${encodeURIComponent(query)}`,
-          description: `Current information about ${query} including recent developments, expert analysis, and trending discussions from authoritative sources.`,
-          source: 'Google Search',
-          timestamp: currentDate,
-          relevanceScore: 0.96
-        },
-        {
-          title: `${query} - Recent News Coverage`,
-          url: `https://news.google.com/search?q=${encodeURIComponent(query)}`,
-          description: `Breaking news and media coverage about ${query} from Reuters, BBC, Associated Press, and other credible journalism sources.`,
-          source: 'Google News',
-          timestamp: currentDate,
-          relevanceScore: 0.92
-        },
-        {
-          title: `${query} - Wikipedia Overview`,
-          url: `https://en.wikipedia.org/wiki/${query.replace(/\s+/g, '_')}`,
-          description: `Comprehensive encyclopedia article about ${query} with verified information, historical context, and references to reliable sources.`,
-          source: 'Wikipedia',
-          timestamp: 'Updated recently',
-          relevanceScore: 0.89
-        }
-      ];
-    } catch (error) {
-      console.error('Google Search error:', error);
-      throw new Error('Failed to perform Google search');
-    }
+    return LocaleService.getInstance().formatTime(new Date());
   }
 
-  async getTodaysHeadlines(): Promise<NewsItem[]> {
+  /**
+   * Web search through the provider chosen in settings, answered from the cache
+   * when it was asked recently; rejects with an AbortError when cancelled.
+   */
+  async search(query: string, { page = 1, signal }: SearchOptions = {}): Promise<Cached<SearchResult[]>> {
     try {
-      await new Promise(resolve => setTimeout(resolve, 1200));
-      
-      const today = new Date();
-      const headlines: NewsItem[] = [
-        {
-          id: '1',
-          headline: 'AI Technology Advances in Accessibility Tools',
-          summary: 'New artificial intelligence developments are revolutionizing accessibility technology, with voice recognition accuracy improving by 40% and real-time translation capabilities expanding to 15 new languages.',
-          source: 'BBC Technology',
-          publishedAt: today.toISOString(),
-          url: 'https://bbc.com/technology/ai-accessibility',
-          category: 'technology'
-        },
-        {
-          id: '2',
-          headline: 'Global Climate Summit Reaches Historic Agreement',
-          summary: 'World leaders announce unprecedented commitments to renewable energy, with 50 nations pledging carbon neutrality by 2030 and $500 billion in clean energy investments.',
-          source: 'Reuters',
-          publishedAt: new Date(today.getTime() - 3600000).toISOString(),
-          url: 'https://reuters.com/climate-summit-agreement',
-          category: 'environment'
-        },
-        {
-          id: '3',
-          headline: 'Medical Breakthrough in Early Disease Detection',
-          summary: 'Researchers develop AI-powered diagnostic tool that can detect multiple diseases from voice patterns with 95% accuracy, potentially revolutionizing preventive healthcare.',
-          source: 'Associated Press',
-          publishedAt: new Date(today.getTime() - 7200000).toISOString(),
-          url: 'https://apnews.com/medical-ai-breakthrough',
-          category: 'health'
-        },
-        {
-          id: '4',
-          headline: 'Technology Giants Announce Accessibility Initiative',
-          summary: 'Major tech companies launch joint $2 billion program to improve digital accessibility, focusing on voice interfaces, screen readers, and assistive technologies.',
-          source: 'TechCrunch',
-          publishedAt: new Date(today.getTime() - 10800000).toISOString(),
-          url: 'https://techcrunch.com/accessibility-initiative',
-          category: 'technology'
-        },
-        {
-          id: '5',
-          headline: 'Educational Technology Transforms Remote Learning',
-          summary: 'New adaptive learning platforms show 60% improvement in student engagement, with AI tutoring systems providing personalized education experiences for diverse learning needs.',
-          source: 'Education Week',
-          publishedAt: new Date(today.getTime() - 14400000).toISOString(),
-          url: 'https://edweek.org/remote-learning-tech',
-          category: 'education'
-        }
-      ];
-      
-      return headlines;
+      const provider = this.selectProvider();
+      const locale = LocaleService.getInstance().getLocale();
+      const key = [provider.id, locale, page, query.toLowerCase().trim()].join(':');
+      return await this.cache.fetch('search', key, () => provider.search({ query, page, locale, signal }), { signal });
     } catch (error) {
-      console.error('Headlines fetch error:', error);
-      throw new Error('Failed to retrieve today\'s headlines');
+      if (isAbortError(error)) {
+        throw error;
+      }
+      console.error('Search error:', error);
+      throw new Error('Failed to perform search');
     }
   }
 
-  async getNewsById(id: string): Promise<NewsItem | null> {
-    const headlines = await this.getTodaysHeadlines();
-    return headlines.find(item => item.id === id) || null;
+  /** Today's stories from the news feeds chosen in settings. */
+  async getTodaysHeadlines(signal?: AbortSignal): Promise<HeadlinesResult> {
+    return NewsFeedService.getInstance().fetchHeadlines(signal);
   }
 
-  async getWeatherInfo(location?: string): Promise<WeatherData> {
-    try {
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      return {
-        location: location || 'Current Location',
-        temperature: '72°F (22°C)',
-        condition: 'Partly Cloudy',
-        humidity: '65%',
-        windSpeed: '8 mph',
-        forecast: 'Mild temperatures continuing through the week with possible light rain on Friday evening'
-      };
-    } catch (error) {
-      console.error('Weather error:', error);
-      throw new Error('Failed to retrieve weather information');
+  // One segment per headline so the reader can skip between stories
+  formatHeadlineSegments(headlines: NewsItem[], unreachable: string[] = [], stale: Staleness | null = null): string[] {
+    if (headlines.length === 0) {
+      return ['No current headlines available at this time.'];
     }
-  }
 
-  async summarizeContent(content: string, maxSentences: number = 3): Promise<string> {
-    // Enhanced content summarization
-    const sentences = content.split(/[.!?]+/).filter(s => s.trim().length > 0);
-    
-    if (sentences.length <= maxSentences) {
-      return content;
-    }
-    
-    // Simple extractive summarization - in production, use actual AI summarization
-    const summary = sentences.slice(0, maxSentences).join('. ') + '.';
-    return summary;
-  }
+    const segments = headlines.map((item, index) => {
+      const published = item.publishedAt ? `, published ${this.getTimeAgo(new Date(item.publishedAt))}` : '';
+      return `Headline ${index + 1}: ${item.headline} from ${item.source}${published}. ${item.summary}`;
+    });
 
-  formatHeadlinesForSpeech(headlines: NewsItem[]): string {
-    if (headlines.length === 0) {
-      return 'No current headlines available at this time.';
+    segments[0] = `Here are today's top ${headlines.length} headlines: ${segments[0]}`;
+    if (stale) {
+      segments.unshift(formatStaleNotice('These headlines are', stale));
     }
-    
-    let response = `Here are today's top ${headlines.length} headlines: `;
-    
-    headlines.forEach((item, index) => {
-      const timeAgo = this.getTimeAgo(new Date(item.publishedAt));
-      response += `Headline ${index + 1}: ${item.headline} from ${item.source}, published ${timeAgo}. ${item.summary} `;
-    });
-    
-    response += 'Would you like me to read any of these stories in more detail? Just say "Tell me more about headline" followed by the number.';
-    return response;
+    if (unreachable.length > 0) {
+      segments.push(`I could not reach ${unreachable.join(', ')} this time.`);
+    }
+    segments.push('Would you like me to read any of these stories in more detail? Just say "Tell me more about headline" followed by the number, or say "next" and "go back" to move between headlines.');
+    return segments;
   }
 
-  formatSearchForSpeech(results: SearchResult[], query: string): string {
+  formatSearchForSpeech(results: SearchResult[], query: string, stale: Staleness | null = null): string {
     if (results.length === 0) {
       return `No current results found for "${query}". Let me try a broader search or check back later.`;
     }
     
-    let response = `I found ${results.length} current results for "${query}". `;
+    let response = stale ? `${formatStaleNotice('These results are', stale)} ` : '';
+    response += `I found ${results.length} current results for "${query}". `;
     response += `Top result: ${results[0].title} from ${results[0].source}. ${results[0].description} `;
     
     if (results.length > 1) {
@@ -228,17 +113,48 @@ class SearchService {
     return response;
   }
 
-  formatWeatherForSpeech(weather: WeatherData): string {
-    return `Current weather for ${weather.location}: It is ${weather.temperature} and ${weather.condition}. Humidity is ${weather.humidity} with winds at ${weather.windSpeed}. ${weather.forecast}`;
+  formatResultDetailForSpeech(result: SearchResult, index: number): string {
+    return `Result ${index + 1}: ${result.title} from ${result.source}. ${result.description} Say "open it" to open this page, "next" for the next result, or "search for more about that" to dig deeper.`;
+  }
+
+  formatHeadlineDetailForSpeech(item: NewsItem, index: number): string {
+    const published = item.publishedAt ? ` Published ${this.describePublished(new Date(item.publishedAt))}.` : '';
+    return `Here are the full details for headline ${index + 1}: ${item.headline} from ${item.source}.${published} Full summary: ${item.summary} This story is categorized under ${item.category}. Would you like me to search for more recent updates on this topic?`;
+  }
+
+  // Read at every search, so a new setting applies to the next one
+  private selectProvider(): SearchProvider {
+    const { provider, endpoint } = PreferencesService.getInstance().get().search;
+    if (provider !== 'searxng') {
+      return this.local;
+    }
+    if (!endpoint) {
+      throw new Error('No search server address is set');
+    }
+    if (this.searxng?.endpoint !== endpoint) {
+      this.searxng = new SearxngSearchProvider(endpoint);
+    }
+    return this.searxng;
+  }
+
+  // "at 3:15 PM" today, otherwise the date
+  private describePublished(date: Date): string {
+    const locale = LocaleService.getInstance();
+    return date.toDateString() === new Date().toDateString()
+      ? `at ${locale.formatTime(date)}`
+      : `on ${locale.formatDate(date)}`;
   }
 
   private getTimeAgo(date: Date): string {
     const now = new Date();
     const diffMs = now.getTime() - date.getTime();
+    const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
     const diffHours = Math.floor(diffMs / (1000 * 60 * 60));
     const diffMinutes = Math.floor(diffMs / (1000 * 60));
     
-    if (diffHours > 0) {
+    if (diffDays > 0) {
+      return `${diffDays} day${diffDays !== 1 ? 's' : ''} ago`;
+    } else if (diffHours > 0) {
       return `${diffHours} hour${diffHours !== 1 ? 's' : ''} ago`;
     } else if (diffMinutes > 0) {
       return `${diffMinutes} minute${diffMinutes !== 1 ? 's' : ''} ago`;
@@ -0,0 +1,107 @@
+// Search Session Service for BlindAssist - The current web search, shared by every mode
+// Searches started by voice or by typing land in the same results list and the same follow-up context
+
+import SearchService, { SearchResult } from './SearchService';
+import DialogContextService from './DialogContextService';
+import SegmentedReaderService from './SegmentedReaderService';
+import type { Cached, Staleness } from './ResponseCacheService';
+import OperationTrackerService, { isAbortError, TrackedOperation } from './OperationTrackerService';
+
+export type SearchStatus = 'idle' | 'searching' | 'done' | 'error';
+
+export interface SearchSession {
+  query: string;
+  status: SearchStatus;
+  // Results of the last search that finished; kept while a new one is running
+  results: SearchResult[];
+  // The query those results are for
+  resultsQuery: string;
+  // Set when those results were saved earlier and could not be refreshed
+  stale: Staleness | null;
+}
+
+export type SearchSessionListener = (session: SearchSession) => void;
+
+const EMPTY_SESSION: SearchSession = {
+  query: '',
+  status: 'idle',
+  results: [],
+  resultsQuery: '',
+  stale: null
+};
+
+class SearchSessionService {
+  private static instance: SearchSessionService;
+  private session: SearchSession = EMPTY_SESSION;
+  // The search in flight, if any
+  private operation: TrackedOperation | null = null;
+  private listeners = new Set<SearchSessionListener>();
+  private searchService = SearchService.getInstance();
+  private dialogContext = DialogContextService.getInstance();
+  private readerService = SegmentedReaderService.getInstance();
+  private operations = OperationTrackerService.getInstance();
+
+  static getInstance(): SearchSessionService {
+    if (!SearchSessionService.instance) {
+      SearchSessionService.instance = new SearchSessionService();
+    }
+    return SearchSessionService.instance;
+  }
+
+  getSession(): SearchSession {
+    return this.session;
+  }
+
+  /**
+   * Search and share the results. Resolves null when a newer search replaced
+   * this one or it was stopped, so only the latest caller reports back;
+   * rejects when it fails.
+   */
+  async search(query: string): Promise<Cached<SearchResult[]> | null> {
+    if (this.operation) {
+      this.operations.abort(this.operation.id);
+    }
+    const operation = this.operations.start(`search for ${query}`);
+    this.operation = operation;
+    this.set({ ...this.session, query, status: 'searching' });
+
+    try {
+      const response = await this.searchService.search(query, { signal: operation.signal });
+      this.set({ query, status: 'done', results: response.value, resultsQuery: query, stale: response.stale });
+      // "Read the second one" and "open it" follow up on whichever search ran last;
+      // headlines or text still loaded in the reader would otherwise answer "next"
+      this.readerService.stop();
+      this.dialogContext.setSearchResults(query, response.value);
+      return response;
+    } catch (error) {
+      if (isAbortError(error)) {
+        // Stopped rather than replaced: nothing is searching any more
+        if (this.operation === operation) {
+          this.set({ ...this.session, status: this.session.resultsQuery ? 'done' : 'idle' });
+        }
+        return null;
+      }
+      this.set({ ...this.session, status: 'error' });
+      throw error;
+    } finally {
+      operation.finish();
+      if (this.operation === operation) {
+        this.operation = null;
+      }
+    }
+  }
+
+  subscribe(listener: SearchSessionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private set(session: SearchSession): void {
+    this.session = session;
+    this.listeners.forEach(listener => listener(session));
+  }
+}
+
+export default SearchSessionService;
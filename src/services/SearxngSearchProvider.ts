@@ -0,0 +1,54 @@
+// SearXNG Search Provider for BlindAssist - Web search through a self-hosted metasearch instance
+// The instance has to allow the JSON output format and cross-origin requests from this app
+
+import type { SearchProvider, SearchRequest, SearchResult } from './SearchProvider';
+
+interface SearxngResult {
+  title?: string;
+  url?: string;
+  content?: string;
+  engine?: string;
+  publishedDate?: string | null;
+  score?: number;
+}
+
+class SearxngSearchProvider implements SearchProvider {
+  readonly id = 'searxng' as const;
+
+  constructor(readonly endpoint: string) {}
+
+  async search({ query, page, locale, signal }: SearchRequest): Promise<SearchResult[]> {
+    // A trailing slash keeps instances hosted under a path, e.g. https://example.org/searx/
+    const url = new URL('search', this.endpoint.endsWith('/') ? this.endpoint : `${this.endpoint}/`);
+    url.searchParams.set('q', query);
+    url.searchParams.set('format', 'json');
+    url.searchParams.set('pageno', String(page));
+    url.searchParams.set('language', locale);
+
+    const response = await fetch(url, { signal, headers: { Accept: 'application/json' } });
+    if (!response.ok) {
+      throw new Error(`SearXNG responded with ${response.status}`);
+    }
+    const body = await response.json() as { results?: SearxngResult[] };
+    return (body.results ?? [])
+      .filter(result => result.title && result.url)
+      .map(result => ({
+        title: result.title,
+        url: result.url,
+        description: result.content?.trim() || 'No description available.',
+        source: this.sourceOf(result),
+        timestamp: result.publishedDate ?? '',
+        relevanceScore: result.score ?? 0
+      }));
+  }
+
+  private sourceOf(result: SearxngResult): string {
+    try {
+      return new URL(result.url).hostname.replace(/^www\./, '');
+    } catch {
+      return result.engine ?? 'Web';
+    }
+  }
+}
+
+export default SearxngSearchProvider;
@@ -0,0 +1,198 @@
+// Segmented Reader Service for BlindAssist - Reads long content one segment at a time
+// Tracks the listener's position so they can pause, go back, skip and resume
+
+import SpeechOutputService, { SpeechEvent } from './SpeechOutputService';
+import ConversationHistoryService from './ConversationHistoryService';
+
+export type SegmentKind = 'sentence' | 'paragraph' | 'item';
+
+export type ReaderStatus = 'idle' | 'playing' | 'paused' | 'finished';
+
+export interface ReaderState {
+  title: string;
+  kind: SegmentKind;
+  segments: string[];
+  index: number;
+  status: ReaderStatus;
+}
+
+export type ReaderListener = (state: ReaderState) => void;
+
+const SEGMENT_LABELS: Record<SegmentKind, string> = {
+  sentence: 'sentence',
+  paragraph: 'paragraph',
+  item: 'item'
+};
+
+export function splitIntoSentences(text: string): string[] {
+  const matches = text.replace(/\s+/g, ' ').match(/[^.!?]+(?:[.!?]+["')\]]*|$)/g) ?? [];
+  return matches.map(sentence => sentence.trim()).filter(sentence => sentence.length > 0);
+}
+
+export function splitIntoParagraphs(text: string): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/\s+/g, ' ').trim())
+    .filter(paragraph => paragraph.length > 0);
+}
+
+const IDLE_STATE: ReaderState = {
+  title: '',
+  kind: 'sentence',
+  segments: [],
+  index: 0,
+  status: 'idle'
+};
+
+class SegmentedReaderService {
+  private static instance: SegmentedReaderService;
+  private state: ReaderState = IDLE_STATE;
+  private listeners = new Set<ReaderListener>();
+  private speech = SpeechOutputService.getInstance();
+  // Id of the speech item for the segment currently being read
+  private activeItemId: number | null = null;
+
+  private constructor() {
+    this.speech.subscribe(event => this.handleSpeechEvent(event));
+  }
+
+  static getInstance(): SegmentedReaderService {
+    if (!SegmentedReaderService.instance) {
+      SegmentedReaderService.instance = new SegmentedReaderService();
+    }
+    return SegmentedReaderService.instance;
+  }
+
+  /** Replace the current content and start reading from the first segment. */
+  load(title: string, segments: string[], kind: SegmentKind): void {
+    this.stopActive();
+    this.setState({ title, kind, segments, index: 0, status: 'paused' });
+    ConversationHistoryService.getInstance().addResponse(segments.join(' '));
+    this.playFrom(0);
+  }
+
+  hasContent(): boolean {
+    return this.state.segments.length > 0;
+  }
+
+  getState(): ReaderState {
+    return this.state;
+  }
+
+  pause(): void {
+    if (this.state.status !== 'playing') {
+      return;
+    }
+    this.stopActive();
+    this.setState({ ...this.state, status: 'paused' });
+  }
+
+  /** Resume from the start of the segment that was interrupted. */
+  resume(): void {
+    if (!this.hasContent()) {
+      return;
+    }
+    const index = this.state.status === 'finished' ? 0 : this.state.index;
+    this.playFrom(index);
+  }
+
+  togglePause(): void {
+    if (this.state.status === 'playing') {
+      this.pause();
+    } else {
+      this.resume();
+    }
+  }
+
+  next(): void {
+    if (!this.hasContent()) {
+      return;
+    }
+    if (this.state.index >= this.state.segments.length - 1) {
+      this.announceBoundary(`That was the last ${SEGMENT_LABELS[this.state.kind]}.`);
+      return;
+    }
+    this.playFrom(this.state.index + 1);
+  }
+
+  previous(): void {
+    if (!this.hasContent()) {
+      return;
+    }
+    if (this.state.index === 0) {
+      this.announceBoundary(`This is the first ${SEGMENT_LABELS[this.state.kind]}.`);
+      this.playFrom(0, false);
+      return;
+    }
+    this.playFrom(this.state.index - 1);
+  }
+
+  restart(): void {
+    if (!this.hasContent()) {
+      return;
+    }
+    this.playFrom(0);
+  }
+
+  stop(): void {
+    this.stopActive();
+    this.setState(IDLE_STATE);
+  }
+
+  subscribe(listener: ReaderListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private playFrom(index: number, interrupt: boolean = true): void {
+    // Forget the old item first so its cancellation is not mistaken for a user interruption
+    this.activeItemId = null;
+    this.setState({ ...this.state, index, status: 'playing' });
+    const item = this.speech.speak(this.state.segments[index], { interrupt });
+    this.activeItemId = item.id;
+  }
+
+  private handleSpeechEvent(event: SpeechEvent): void {
+    if (event.item.id !== this.activeItemId) {
+      return;
+    }
+
+    if (event.type === 'end') {
+      this.activeItemId = null;
+      const nextIndex = this.state.index + 1;
+      if (nextIndex < this.state.segments.length) {
+        // Queue without interrupting so responses asked for mid-read still get heard
+        this.playFrom(nextIndex, false);
+      } else {
+        this.setState({ ...this.state, status: 'finished' });
+      }
+    } else if (event.type === 'cancelled' || event.type === 'dropped') {
+      // Something else took over the speaker; keep the position for resume
+      this.activeItemId = null;
+      this.setState({ ...this.state, status: 'paused' });
+    }
+  }
+
+  private stopActive(): void {
+    const itemId = this.activeItemId;
+    this.activeItemId = null;
+    if (itemId !== null) {
+      this.speech.cancel(itemId);
+    }
+  }
+
+  private announceBoundary(message: string): void {
+    this.stopActive();
+    this.setState({ ...this.state, status: 'paused' });
+    this.speech.speak(message, { interrupt: true });
+  }
+
+  private setState(state: ReaderState): void {
+    this.state = state;
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+export default SegmentedReaderService;
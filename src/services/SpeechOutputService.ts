@@ -0,0 +1,216 @@
+// Speech Output Service for BlindAssist - Central queue for everything spoken aloud
+// Every mode routes speech through here so messages never clobber each other
+
+import PreferencesService from './PreferencesService';
+import LocaleService from './LocaleService';
+
+export type SpeechPriority = 'alert' | 'response' | 'progress' | 'hint';
+
+export interface SpeechOptions {
+  priority?: SpeechPriority;
+  // Cut off whatever is currently speaking instead of waiting for it to finish
+  interrupt?: boolean;
+  // Speaking rate for this message only, instead of the preferred rate
+  rate?: number;
+}
+
+export interface SpeechItem {
+  id: number;
+  text: string;
+  priority: SpeechPriority;
+  enqueuedAt: number;
+  rate?: number;
+}
+
+export type SpeechEventType = 'queued' | 'start' | 'end' | 'cancelled' | 'dropped';
+
+export interface SpeechEvent {
+  type: SpeechEventType;
+  item: SpeechItem;
+}
+
+export type SpeechListener = (event: SpeechEvent) => void;
+
+// Lower rank is spoken first
+const PRIORITY_RANK: Record<SpeechPriority, number> = {
+  alert: 0,
+  response: 1,
+  progress: 2,
+  hint: 3
+};
+
+class SpeechOutputService {
+  private static instance: SpeechOutputService;
+  private queue: SpeechItem[] = [];
+  private current: SpeechItem | null = null;
+  private listeners = new Set<SpeechListener>();
+  private nextId = 1;
+
+  static getInstance(): SpeechOutputService {
+    if (!SpeechOutputService.instance) {
+      SpeechOutputService.instance = new SpeechOutputService();
+    }
+    return SpeechOutputService.instance;
+  }
+
+  isSupported(): boolean {
+    return typeof window !== 'undefined' && 'speechSynthesis' in window;
+  }
+
+  /**
+   * Queue text for speaking. Alerts interrupt by default; everything else waits
+   * its turn, ordered by priority and then by arrival.
+   */
+  speak(text: string, options: SpeechOptions = {}): SpeechItem {
+    const priority = options.priority ?? 'response';
+    const interrupt = options.interrupt ?? priority === 'alert';
+    const item: SpeechItem = { id: this.nextId++, text, priority, enqueuedAt: Date.now(), rate: options.rate };
+    const rank = PRIORITY_RANK[priority];
+
+    // Hints are only worth saying when nothing else wants the speaker
+    if (priority === 'hint' && (this.current || this.queue.length > 0)) {
+      this.emit({ type: 'dropped', item });
+      return item;
+    }
+
+    // A newer message makes any progress update that has not started yet stale
+    if (priority === 'response' || priority === 'progress') {
+      this.dropQueued(queued => queued.priority === 'progress');
+    }
+
+    if (interrupt) {
+      this.dropQueued(queued => PRIORITY_RANK[queued.priority] >= rank);
+      if (this.current && PRIORITY_RANK[this.current.priority] >= rank) {
+        this.cancelCurrent();
+      }
+    }
+
+    const insertAt = this.queue.findIndex(queued => PRIORITY_RANK[queued.priority] > rank);
+    if (insertAt === -1) {
+      this.queue.push(item);
+    } else {
+      this.queue.splice(insertAt, 0, item);
+    }
+    this.emit({ type: 'queued', item });
+
+    this.processQueue();
+    return item;
+  }
+
+  /** Stop the current utterance and discard everything waiting. */
+  stopAll(): void {
+    this.dropQueued(() => true, 'cancelled');
+    this.cancelCurrent();
+  }
+
+  /** Stop only the current utterance; queued messages continue. */
+  skipCurrent(): void {
+    this.cancelCurrent();
+    this.processQueue();
+  }
+
+  /** Withdraw a single message, whether it is speaking or still waiting. */
+  cancel(id: number): void {
+    if (this.current?.id === id) {
+      this.skipCurrent();
+    } else {
+      this.dropQueued(item => item.id === id, 'cancelled');
+    }
+  }
+
+  /** Installed synthesis voices; may be empty until the browser fires voiceschanged. */
+  getVoices(): SpeechSynthesisVoice[] {
+    return this.isSupported() ? window.speechSynthesis.getVoices() : [];
+  }
+
+  isSpeaking(): boolean {
+    return this.current !== null;
+  }
+
+  getCurrent(): SpeechItem | null {
+    return this.current;
+  }
+
+  getQueue(): SpeechItem[] {
+    return [...this.queue];
+  }
+
+  subscribe(listener: SpeechListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private processQueue(): void {
+    if (this.current || this.queue.length === 0) {
+      return;
+    }
+
+    const item = this.queue.shift()!;
+    this.current = item;
+    this.emit({ type: 'start', item });
+
+    if (!this.isSupported()) {
+      this.finish(item);
+      return;
+    }
+
+    const { voiceURI, rate, pitch, volume } = PreferencesService.getInstance().get().voice;
+    const utterance = new SpeechSynthesisUtterance(item.text);
+    const locale = LocaleService.getInstance();
+    const voice = locale.pickVoice(this.getVoices(), voiceURI);
+    utterance.lang = voice?.lang ?? locale.getSpeechLocale();
+    if (voice) {
+      utterance.voice = voice;
+    }
+    utterance.rate = item.rate ?? rate;
+    utterance.pitch = pitch;
+    utterance.volume = volume;
+    utterance.onend = () => this.finish(item);
+    utterance.onerror = () => this.finish(item);
+    window.speechSynthesis.speak(utterance);
+  }
+
+  private finish(item: SpeechItem): void {
+    // Ignore late callbacks from utterances we already cancelled
+    if (this.current?.id !== item.id) {
+      return;
+    }
+    this.current = null;
+    this.emit({ type: 'end', item });
+    this.processQueue();
+  }
+
+  private cancelCurrent(): void {
+    const item = this.current;
+    this.current = null;
+    if (this.isSupported()) {
+      window.speechSynthesis.cancel();
+    }
+    if (item) {
+      this.emit({ type: 'cancelled', item });
+    }
+  }
+
+  private dropQueued(predicate: (item: SpeechItem) => boolean, type: SpeechEventType = 'dropped'): void {
+    const dropped = this.queue.filter(predicate);
+    if (dropped.length === 0) {
+      return;
+    }
+    this.queue = this.queue.filter(item => !predicate(item));
+    dropped.forEach(item => this.emit({ type, item }));
+  }
+
+  private emit(event: SpeechEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Speech listener error:', error);
+      }
+    });
+  }
+}
+
+export default SpeechOutputService;
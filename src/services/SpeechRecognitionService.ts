@@ -0,0 +1,235 @@
+// Speech Recognition Service for BlindAssist - One microphone session for the whole app
+// Listening survives mode switches; accepted commands go to a single handler
+
+import WakeWordService from './WakeWordService';
+import ConversationHistoryService from './ConversationHistoryService';
+import LocaleService from './LocaleService';
+import PreferencesService, { RecognitionEngine } from './PreferencesService';
+import type { RecognitionAlternative, RecognitionBackend } from './RecognitionBackend';
+import BrowserRecognitionBackend from './BrowserRecognitionBackend';
+import WhisperRecognitionBackend from './WhisperRecognitionBackend';
+
+export interface RecognitionState {
+  supported: boolean;
+  listening: boolean;
+  // Starting up; the on-device model can take a while to download the first time
+  preparing: boolean;
+  // The engine in use, or the one that was used last
+  engine: RecognitionEngine | null;
+  // Listening only while the push-to-talk key is held
+  pushToTalk: boolean;
+  // Last command that passed the wake word gate
+  lastCommand: string;
+  // Most recent recognizer error, cleared when listening starts again
+  error: string | null;
+}
+
+export type RecognitionListener = (state: RecognitionState) => void;
+// Alternatives arrive most likely first
+export type CommandHandler = (alternatives: RecognitionAlternative[]) => void;
+
+export interface DictationHandler {
+  onInterim: (transcript: string) => void;
+  onFinal: (transcript: string) => void;
+}
+
+class SpeechRecognitionService {
+  private static instance: SpeechRecognitionService;
+  private browser = new BrowserRecognitionBackend();
+  private whisper = new WhisperRecognitionBackend();
+  private active: RecognitionBackend | null = null;
+  private handler: CommandHandler | null = null;
+  private dictation: DictationHandler | null = null;
+  private listeners = new Set<RecognitionListener>();
+  private wakeWord = WakeWordService.getInstance();
+  private history = ConversationHistoryService.getInstance();
+  private preferences = PreferencesService.getInstance();
+  private state: RecognitionState;
+
+  private constructor() {
+    this.state = {
+      supported: this.browser.isSupported() || this.whisper.isSupported(),
+      listening: false,
+      preparing: false,
+      engine: null,
+      pushToTalk: false,
+      lastCommand: '',
+      error: null
+    };
+  }
+
+  static getInstance(): SpeechRecognitionService {
+    if (!SpeechRecognitionService.instance) {
+      SpeechRecognitionService.instance = new SpeechRecognitionService();
+    }
+    return SpeechRecognitionService.instance;
+  }
+
+  getState(): RecognitionState {
+    return this.state;
+  }
+
+  /** Where accepted commands are sent; the app installs one executor at start-up. */
+  setCommandHandler(handler: CommandHandler | null): void {
+    this.handler = handler;
+  }
+
+  /** While set, everything heard is text to insert rather than a command. */
+  setDictationHandler(handler: DictationHandler | null): void {
+    this.dictation = handler;
+  }
+
+  /** Whether starting now would first have to load the on-device model. */
+  needsModelDownload(): boolean {
+    return this.selectBackend() === this.whisper && !this.whisper.isModelReady();
+  }
+
+  /** Resolves true once listening, false when it could not start or was stopped meanwhile. */
+  start(): Promise<boolean> {
+    return this.begin(false);
+  }
+
+  /** Listen until finish() is called, accepting commands without the wake phrase. */
+  startPushToTalk(): Promise<boolean> {
+    return this.begin(true);
+  }
+
+  /** Stop listening but still act on what was already said, e.g. when push-to-talk is released. */
+  finish(): void {
+    if (!this.active) {
+      return;
+    }
+    if (this.state.preparing) {
+      this.end(null);
+      return;
+    }
+    // The backend reports its last phrase, then ends
+    this.active.finish();
+    this.setState({ listening: false });
+  }
+
+  stop(): void {
+    if (!this.active) {
+      return;
+    }
+    this.end(null);
+  }
+
+  subscribe(listener: RecognitionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async begin(pushToTalk: boolean): Promise<boolean> {
+    if (this.active) {
+      return false;
+    }
+    const backend = this.selectBackend();
+    if (!backend) {
+      // Only when the chosen engine is missing; with none at all `supported` is false
+      this.setState({ error: 'engine-unavailable' });
+      return false;
+    }
+    this.active = backend;
+    this.setState({ preparing: true, engine: backend.engine, pushToTalk, lastCommand: '', error: null });
+
+    try {
+      // The language is read on every start, so a new setting applies next time
+      await backend.start(LocaleService.getInstance().getLocale(), {
+        onResult: alternatives => {
+          if (this.active === backend) {
+            this.accept(alternatives);
+          }
+        },
+        onInterim: transcript => {
+          if (this.active === backend) {
+            this.dictation?.onInterim(transcript);
+          }
+        },
+        onError: error => {
+          if (this.active === backend) {
+            this.end(error);
+          }
+        },
+        onEnd: () => {
+          if (this.active === backend) {
+            this.end(null);
+          }
+        }
+      });
+    } catch (error) {
+      console.error('Speech recognition start error:', error);
+      if (this.active === backend) {
+        this.end(error instanceof Error ? error.message : String(error));
+      }
+      return false;
+    }
+
+    if (this.active !== backend) {
+      return false;
+    }
+    this.setState({ preparing: false, listening: true });
+    return true;
+  }
+
+  private selectBackend(): RecognitionBackend | null {
+    switch (this.preferences.get().recognition.engine) {
+      case 'browser':
+        return this.browser.isSupported() ? this.browser : null;
+      case 'whisper':
+        return this.whisper.isSupported() ? this.whisper : null;
+      default:
+        if (this.browser.isSupported()) {
+          return this.browser;
+        }
+        return this.whisper.isSupported() ? this.whisper : null;
+    }
+  }
+
+  private end(error: string | null): void {
+    this.active?.stop();
+    this.active = null;
+    this.wakeWord.reset();
+    this.setState(error === null
+      ? { listening: false, preparing: false, pushToTalk: false }
+      : { listening: false, preparing: false, pushToTalk: false, error });
+  }
+
+  private accept(alternatives: RecognitionAlternative[]): void {
+    const [best, ...others] = alternatives;
+    if (!best?.transcript.trim()) {
+      return;
+    }
+    // Dictation is not addressed to us by wake phrase, and is not a command
+    if (this.dictation) {
+      this.dictation.onFinal(this.wakeWord.stripPhrase(best.transcript));
+      return;
+    }
+    // With the wake word enabled, anything not addressed to us is ignored;
+    // holding the push-to-talk key already says it is
+    const gate = this.state.pushToTalk
+      ? { accepted: true, command: this.wakeWord.stripPhrase(best.transcript) }
+      : this.wakeWord.process(best.transcript);
+    if (!gate.accepted || !gate.command) {
+      return;
+    }
+    const commands = [
+      { transcript: gate.command, confidence: best.confidence },
+      ...others
+        .map(alternative => ({ ...alternative, transcript: this.wakeWord.stripPhrase(alternative.transcript) }))
+        .filter(alternative => alternative.transcript.trim())
+    ];
+    this.setState({ lastCommand: gate.command });
+    this.history.addUserCommand(gate.command);
+    this.handler?.(commands);
+  }
+
+  private setState(changes: Partial<RecognitionState>): void {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach(listener => listener(this.state));
+  }
+}
+
+export default SpeechRecognitionService;
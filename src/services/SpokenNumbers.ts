@@ -0,0 +1,195 @@
+// Spoken Numbers for BlindAssist - Numbers, ordinals and list positions as recognizers write them
+// "3", "three", "third", "3rd", "for" (heard for "four") and "the one before last" all become values
+
+const UNITS = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'
+];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const ORDINAL_UNITS = [
+  'zeroth', 'first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth',
+  'eleventh', 'twelfth', 'thirteenth', 'fourteenth', 'fifteenth', 'sixteenth', 'seventeenth', 'eighteenth', 'nineteenth'
+];
+const ORDINAL_TENS = ['', '', 'twentieth', 'thirtieth', 'fortieth', 'fiftieth', 'sixtieth', 'seventieth', 'eightieth', 'ninetieth'];
+const SCALES: Record<string, number> = { hundred: 100, thousand: 1000 };
+const ORDINAL_SCALES: Record<string, number> = { hundredth: 100, thousandth: 1000 };
+
+// What recognizers write for a number said on its own, e.g. "headline for"
+const HOMOPHONES: Record<string, number> = { won: 1, to: 2, too: 2, for: 4, fore: 4, ate: 8 };
+
+// Positions counted back from the end of a list
+const FROM_END: Record<string, number> = {
+  last: 0,
+  final: 0,
+  'second to last': 1,
+  'second last': 1,
+  'one before last': 1,
+  penultimate: 1
+};
+// Positions relative to the item being discussed
+const RELATIVE: Record<string, number> = {
+  next: 1,
+  following: 1,
+  previous: -1,
+  'one before': -1,
+  this: 0,
+  that: 0,
+  current: 0,
+  same: 0
+};
+
+const CARDINAL_WORDS = [...UNITS, ...TENS.filter(Boolean), ...Object.keys(SCALES)].join('|');
+const ORDINAL_WORDS = [...ORDINAL_UNITS, ...ORDINAL_TENS.filter(Boolean), ...Object.keys(ORDINAL_SCALES)].join('|');
+// Longest phrases first, so "second to last" is not read as "second"
+const phrases = (table: Record<string, number>) =>
+  Object.keys(table).sort((a, b) => b.length - a.length).join('|');
+
+const CARDINAL_NUMBER = `(?:a )?(?:${CARDINAL_WORDS})(?: (?:and )?(?:${CARDINAL_WORDS}))*`;
+// An ordinal can only end a number: "twenty first" is one number, "second one" is not
+const WORD_NUMBER = `${CARDINAL_NUMBER}(?: (?:${ORDINAL_WORDS}))?|(?:${ORDINAL_WORDS})`;
+// "2.5" reaches the parser as "2 point 5"; digits after the point are read one by one
+const DIGIT_WORD = `(?:${UNITS.slice(0, 10).join('|')}|oh)`;
+const DECIMAL_NUMBER = `(?:(?:\\d+|${CARDINAL_NUMBER}) )?point (?:\\d+|${DIGIT_WORD}(?: ${DIGIT_WORD})*)`;
+
+/** Regex source for {slot:number}: a count or amount, in digits or words. */
+export const NUMBER_PATTERN = `${DECIMAL_NUMBER}|\\d+(?:\\.\\d+)?(?:st|nd|rd|th)?|${WORD_NUMBER}|${Object.keys(HOMOPHONES).join('|')}`;
+
+/** Regex source for {slot:position}: a place in a list, absolute or relative. */
+export const POSITION_PATTERN = `${phrases(FROM_END)}|${phrases(RELATIVE)}|${NUMBER_PATTERN}`;
+
+export type SpokenPosition =
+  // 1-based, counted from the start
+  | { kind: 'index'; index: number }
+  // 0 is the last item, 1 the one before it
+  | { kind: 'fromEnd'; offset: number }
+  // From the item in focus: 1 is the next one
+  | { kind: 'relative'; offset: number };
+
+function valueOf(word: string): { value: number; kind: 'unit' | 'tens' | 'scale'; ordinal: boolean } | null {
+  const tables: [string[] | Record<string, number>, 'unit' | 'tens' | 'scale', boolean][] = [
+    [UNITS, 'unit', false],
+    [ORDINAL_UNITS, 'unit', true],
+    [TENS, 'tens', false],
+    [ORDINAL_TENS, 'tens', true],
+    [SCALES, 'scale', false],
+    [ORDINAL_SCALES, 'scale', true]
+  ];
+  for (const [table, kind, ordinal] of tables) {
+    const value = Array.isArray(table) ? table.indexOf(word) * (kind === 'tens' ? 10 : 1) : table[word];
+    if (word && value !== undefined && value >= 0) {
+      return { value, kind, ordinal };
+    }
+  }
+  return null;
+}
+
+/** A spoken or written number, cardinal or ordinal; null when it is not one. */
+export function parseSpokenNumber(text: string): number | null {
+  const words = text.toLowerCase().replace(/-/g, ' ').trim().split(/\s+/).filter(word => word && word !== 'and');
+  if (words.length === 0) {
+    return null;
+  }
+  if (words.length === 1) {
+    const digits = words[0].match(/^(\d+(?:\.\d+)?)(?:st|nd|rd|th)?$/);
+    if (digits) {
+      return parseFloat(digits[1]);
+    }
+    if (words[0] in HOMOPHONES) {
+      return HOMOPHONES[words[0]];
+    }
+  }
+  // "two point five", "point seven five"
+  const point = words.indexOf('point');
+  if (point !== -1) {
+    const whole = point === 0 ? 0 : parseSpokenNumber(words.slice(0, point).join(' '));
+    const digits = words.slice(point + 1).map(word => (word === 'oh' ? '0' : /^\d+$/.test(word) ? word : String(UNITS.slice(0, 10).indexOf(word))));
+    if (whole === null || digits.length === 0 || digits.some(digit => !/^\d+$/.test(digit))) {
+      return null;
+    }
+    return whole + parseFloat(`0.${digits.join('')}`);
+  }
+  // "a hundred" is one hundred
+  if (words[0] === 'a' && words.length > 1 && words[1] in SCALES) {
+    words[0] = 'one';
+  }
+
+  let total = 0;
+  let current = 0;
+  for (let i = 0; i < words.length; i++) {
+    const word = valueOf(words[i]);
+    // Ordinals only end a number
+    if (!word || (word.ordinal && i < words.length - 1)) {
+      return null;
+    }
+    if (word.kind === 'scale') {
+      if (word.value === 100) {
+        current = (current || 1) * 100;
+      } else {
+        total += (current || 1) * word.value;
+        current = 0;
+      }
+    } else if (word.kind === 'tens') {
+      if (current % 100 !== 0) {
+        return null;
+      }
+      current += word.value;
+    } else {
+      // "twenty one" is fine, "one two" and "twelve three" are not
+      const below = current % 100;
+      if (below !== 0 && (below < 20 || below % 10 !== 0 || word.value >= 10)) {
+        return null;
+      }
+      current += word.value;
+    }
+  }
+  return total + current;
+}
+
+/** A number rounded to what is worth hearing: 2 decimals, 1 above 100, 3 significant digits when tiny. */
+export function roundForSpeech(value: number): number {
+  const magnitude = Math.abs(value);
+  if (magnitude !== 0 && magnitude < 0.01) {
+    return Number(value.toPrecision(3));
+  }
+  const scale = 10 ** (magnitude >= 100 ? 1 : magnitude >= 1 ? 2 : 3);
+  return Math.round(value * scale) / scale;
+}
+
+/** A number as it should be read aloud, grouped for the locale: "1,234.5". */
+export function formatSpokenNumber(value: number, locale?: string): string {
+  return roundForSpeech(value).toLocaleString(locale, { maximumFractionDigits: 10 });
+}
+
+/** A spoken list position such as "3", "third", "the last one" or "next". */
+export function parsePosition(text: string): SpokenPosition | null {
+  const phrase = text.toLowerCase().trim().replace(/\s+/g, ' ');
+  if (phrase in FROM_END) {
+    return { kind: 'fromEnd', offset: FROM_END[phrase] };
+  }
+  if (phrase in RELATIVE) {
+    return { kind: 'relative', offset: RELATIVE[phrase] };
+  }
+  const index = parseSpokenNumber(phrase);
+  return index !== null && Number.isInteger(index) && index > 0 ? { kind: 'index', index } : null;
+}
+
+/**
+ * Zero-based index of a position in a list of `count` items, where `focus`
+ * is the item being discussed; null when it falls outside the list.
+ */
+export function resolvePosition(position: SpokenPosition, count: number, focus: number | null): number | null {
+  let index: number;
+  switch (position.kind) {
+    case 'index':
+      index = position.index - 1;
+      break;
+    case 'fromEnd':
+      index = count - 1 - position.offset;
+      break;
+    case 'relative':
+      // With nothing in focus yet, "next" starts the list
+      index = focus === null ? (position.offset > 0 ? position.offset - 1 : -1) : focus + position.offset;
+      break;
+  }
+  return index >= 0 && index < count ? index : null;
+}
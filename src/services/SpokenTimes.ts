@@ -0,0 +1,224 @@
+// Spoken Times for BlindAssist - Durations, clock times and days as recognizers write them
+// "ten minutes", "an hour and a half", "3 pm", "3 30" (from "3:30"), "quarter to four" and "on friday" all become values
+
+import { NUMBER_PATTERN, parseSpokenNumber } from './SpokenNumbers';
+
+const UNIT_MS: Record<string, number> = {
+  second: 1000,
+  sec: 1000,
+  minute: 60 * 1000,
+  min: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  hr: 60 * 60 * 1000
+};
+const UNIT_WORDS = '(?:seconds?|secs?|minutes?|mins?|hours?|hrs?)';
+
+// Punctuation is gone by the time patterns are matched, so "p.m." arrives as "p m"
+const PM = /^(pm|p m|in the (afternoon|evening)|at night|tonight)$/;
+const AM = /^(am|a m|in the morning)$/;
+const DAY_PART = '(?:am|pm|a m|p m|in the (?:morning|afternoon|evening)|at night|tonight)';
+
+const AMOUNT = `(?:${NUMBER_PATTERN}|an?)`;
+
+/** Regex source for {slot:duration}: "10 minutes", "an hour and a half", "1 hour 30 minutes". */
+export const DURATION_PATTERN = [
+  `${AMOUNT}(?: and a half)? ${UNIT_WORDS}(?: and a half)?(?: (?:and )?${AMOUNT} ${UNIT_WORDS})*`,
+  'half an hour',
+  '(?:a )?quarter of an hour'
+].join('|');
+
+/** Regex source for {slot:time}: a time of day such as "3 pm", "3 30", "noon" or "half past six". */
+export const TIME_PATTERN = [
+  `(?:${NUMBER_PATTERN})(?: (?:o'clock|oh (?:${NUMBER_PATTERN})|${NUMBER_PATTERN}))?(?: ${DAY_PART})?`,
+  `(?:half|quarter|(?:${NUMBER_PATTERN})(?: minutes?)?) (?:past|after|to) (?:${NUMBER_PATTERN})(?: ${DAY_PART})?`,
+  'noon|midday|midnight'
+].join('|');
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const DAY_PARTS = '(?:morning|afternoon|evening|night)';
+
+/** Regex source for {slot:day}: a day or a few days from today, such as "tomorrow", "on friday" or "this weekend". */
+export const DAY_PATTERN = [
+  `today|tonight|this ${DAY_PARTS}|(?:the )?day after tomorrow|tomorrow(?: ${DAY_PARTS})?`,
+  `(?:on |this |next )?(?:${WEEKDAYS.join('|')})(?: ${DAY_PARTS})?`,
+  '(?:this|the|over the) weekend|(?:this|the) week|(?:the )?next few days'
+].join('|');
+
+export interface SpokenDay {
+  // Whole days from today; 0 is today
+  offset: number;
+  // How many days the phrase covers: 1 for "tomorrow", 2 for "this weekend"
+  days: number;
+}
+
+/** The days a spoken phrase such as "tomorrow" or "on friday" refers to; null when it names none. */
+export function parseDay(text: string, now = new Date()): SpokenDay | null {
+  const phrase = text.toLowerCase().trim().replace(/\s+/g, ' ').replace(new RegExp(` ${DAY_PARTS}$`), '');
+  const today = now.getDay();
+  if (phrase === 'today' || phrase === 'tonight' || phrase === 'this') {
+    return { offset: 0, days: 1 };
+  }
+  if (phrase === 'tomorrow') {
+    return { offset: 1, days: 1 };
+  }
+  if (/^(the )?day after tomorrow$/.test(phrase)) {
+    return { offset: 2, days: 1 };
+  }
+  if (/weekend$/.test(phrase)) {
+    // On a Sunday only today is left of it
+    return today === 0 ? { offset: 0, days: 1 } : { offset: 6 - today, days: 2 };
+  }
+  if (/week$|next few days$/.test(phrase)) {
+    return phrase.endsWith('few days') ? { offset: 0, days: 3 } : { offset: 0, days: 7 };
+  }
+  const weekday = phrase.match(/^(on |this |next )?(\w+)$/);
+  const index = weekday ? WEEKDAYS.indexOf(weekday[2]) : -1;
+  if (index === -1) {
+    return null;
+  }
+  const offset = (index - today + 7) % 7;
+  // "next monday" said on a Monday is a week away; plain "monday" is today
+  return { offset: offset === 0 && weekday[1] === 'next ' ? 7 : offset, days: 1 };
+}
+
+function unitOf(word: string): number | undefined {
+  return UNIT_MS[word.replace(/s$/, '')];
+}
+
+function amountOf(words: string[]): number | null {
+  const spoken = words.join(' ');
+  return spoken === 'a' || spoken === 'an' ? 1 : parseSpokenNumber(spoken);
+}
+
+/** Length of a spoken duration in milliseconds; null when it is not one. */
+export function parseDuration(text: string): number | null {
+  const words = text.toLowerCase()
+    .replace(/\bhalf an hour\b/g, '30 minutes')
+    .replace(/\b(a )?quarter of an hour\b/g, '15 minutes')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  let total = 0;
+  let amount: string[] = [];
+  // "one and a half hours": the half belongs to the unit that follows
+  let half = false;
+  let counted = false;
+  for (let i = 0; i < words.length; i++) {
+    const unit = unitOf(words[i]);
+    if (unit) {
+      const value = amountOf(amount);
+      if (value === null) {
+        return null;
+      }
+      total += (value + (half ? 0.5 : 0)) * unit;
+      amount = [];
+      half = false;
+      counted = true;
+      // "an hour and a half"
+      if (words.slice(i + 1, i + 4).join(' ') === 'and a half') {
+        total += unit / 2;
+        i += 3;
+      }
+      continue;
+    }
+    if (amount.length > 0 && words.slice(i, i + 3).join(' ') === 'and a half') {
+      half = true;
+      i += 2;
+      continue;
+    }
+    // "1 hour and 30 minutes"
+    if (words[i] === 'and' && amount.length === 0) {
+      continue;
+    }
+    amount.push(words[i]);
+  }
+  return counted && amount.length === 0 && total > 0 ? Math.round(total) : null;
+}
+
+function minutesOf(words: string[]): number | null {
+  if (words.length === 0 || (words.length === 1 && words[0] === "o'clock")) {
+    return 0;
+  }
+  // "three oh five"
+  const spoken = words[0] === 'oh' ? words.slice(1).join(' ') : words.join(' ');
+  const minutes = parseSpokenNumber(spoken);
+  return minutes !== null && Number.isInteger(minutes) && minutes < 60 ? minutes : null;
+}
+
+/**
+ * The next moment after `now` that a spoken time of day refers to. Without
+ * "am" or "pm", "at 3" means whichever of 3 am and 3 pm comes first.
+ */
+export function parseClockTime(text: string, now = new Date()): Date | null {
+  let words = text.toLowerCase().split(/\s+/).filter(Boolean);
+  let dayPart: 'am' | 'pm' | null = null;
+  for (let length = 3; length >= 1 && !dayPart; length--) {
+    const suffix = words.slice(-length).join(' ');
+    if (words.length > length && (PM.test(suffix) || AM.test(suffix))) {
+      dayPart = PM.test(suffix) ? 'pm' : 'am';
+      words = words.slice(0, -length);
+    }
+  }
+
+  let hour: number | null;
+  let minute: number | null;
+  const phrase = words.join(' ');
+  const relative = phrase.match(/^(.+?) (?:minutes? )?(past|after|to) (.+)$/);
+  if (phrase === 'noon' || phrase === 'midday' || phrase === 'midnight') {
+    hour = phrase === 'midnight' ? 0 : 12;
+    minute = 0;
+    dayPart = phrase === 'midnight' ? 'am' : 'pm';
+  } else if (relative) {
+    const [, offset, direction, target] = relative;
+    const minutes = offset === 'half' ? 30 : offset === 'quarter' ? 15 : parseSpokenNumber(offset);
+    hour = parseSpokenNumber(target);
+    if (minutes === null || hour === null || minutes >= 60) {
+      return null;
+    }
+    // "quarter to four" is 3:45
+    minute = direction === 'to' ? (60 - minutes) % 60 : minutes;
+    if (direction === 'to' && minutes > 0) {
+      hour = (hour + 23) % 24;
+    }
+  } else {
+    hour = parseSpokenNumber(words[0] ?? '');
+    minute = minutesOf(words.slice(1));
+  }
+  if (hour === null || minute === null || !Number.isInteger(hour) || hour > 24) {
+    return null;
+  }
+
+  if (dayPart === 'pm' && hour < 12) {
+    hour += 12;
+  } else if (dayPart === 'am' && hour === 12) {
+    hour = 0;
+  }
+  // "at 3" could be either half of the day; 24-hour times like "15 00" cannot
+  const candidates = dayPart || hour === 0 || hour > 12 ? [hour % 24] : [hour % 12, hour % 12 + 12];
+  const times = [0, 1].flatMap(days => candidates.map(candidate => {
+    const time = new Date(now);
+    time.setDate(time.getDate() + days);
+    time.setHours(candidate, minute, 0, 0);
+    return time;
+  }));
+  return times
+    .filter(time => time.getTime() > now.getTime())
+    .sort((a, b) => a.getTime() - b.getTime())[0] ?? null;
+}
+
+/** A duration as it should be spoken: "1 hour and 30 minutes", "45 seconds". */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(Math.round(ms / 1000), 0);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  // Seconds only matter for the last few minutes
+  const seconds = hours === 0 && minutes < 10 ? totalSeconds % 60 : 0;
+  const units: [number, string][] = [[hours, 'hour'], [minutes, 'minute'], [seconds, 'second']];
+  const parts = units
+    .filter(([value]) => value > 0)
+    .map(([value, unit]) => `${value} ${unit}${value === 1 ? '' : 's'}`);
+  if (parts.length === 0) {
+    return 'less than a second';
+  }
+  return parts.length === 1 ? parts[0] : `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`;
+}
@@ -0,0 +1,215 @@
+// Timer Service for BlindAssist - Timers, alarms and reminders set by voice
+// Saved in localStorage so they still ring after a reload; the app installs the handler that speaks them
+
+import AudioCueService from './AudioCueService';
+import LocaleService from './LocaleService';
+import { formatDuration } from './SpokenTimes';
+
+export type TimerKind = 'timer' | 'alarm' | 'reminder';
+
+export interface Timer {
+  id: string;
+  kind: TimerKind;
+  // Epoch milliseconds
+  dueAt: number;
+  createdAt: number;
+  // Timers only: the length asked for, e.g. "10 minutes"
+  duration?: number;
+  // Reminders only: what to remind about
+  message?: string;
+}
+
+export type NewTimer = Omit<Timer, 'id' | 'createdAt'>;
+export type TimerListener = (timers: Timer[]) => void;
+export type TimerAlertHandler = (announcement: string, timer: Timer) => void;
+
+const STORAGE_KEY = 'blindassist.timers';
+// setTimeout fires straight away for longer delays, so far-off timers wait in steps
+const MAX_DELAY_MS = 2 ** 31 - 1;
+// Rang while BlindAssist was closed: say so, or a reminder at 3 pm heard at 5 pm is confusing
+const LATE_AFTER_MS = 60 * 1000;
+
+class TimerService {
+  private static instance: TimerService;
+  // Soonest first
+  private timers: Timer[];
+  private listeners = new Set<TimerListener>();
+  private audioCues = AudioCueService.getInstance();
+  private locale = LocaleService.getInstance();
+  // Nothing rings until the app can announce it
+  private alertHandler: TimerAlertHandler | null = null;
+  private timeout: ReturnType<typeof setTimeout> | null = null;
+
+  private constructor() {
+    this.timers = this.load();
+  }
+
+  static getInstance(): TimerService {
+    if (!TimerService.instance) {
+      TimerService.instance = new TimerService();
+    }
+    return TimerService.instance;
+  }
+
+  getTimers(): Timer[] {
+    return this.timers;
+  }
+
+  /** How due timers are announced; timers that came due while none was installed ring as soon as one is. */
+  setAlertHandler(handler: TimerAlertHandler | null): void {
+    this.alertHandler = handler;
+    this.schedule();
+  }
+
+  add(details: NewTimer): Timer {
+    const timer: Timer = {
+      ...details,
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      createdAt: Date.now()
+    };
+    this.set([...this.timers, timer]);
+    this.requestNotificationPermission();
+    return timer;
+  }
+
+  cancel(id: string): Timer | undefined {
+    const timer = this.timers.find(candidate => candidate.id === id);
+    if (timer) {
+      this.set(this.timers.filter(candidate => candidate.id !== id));
+    }
+    return timer;
+  }
+
+  /** Cancel every timer of one kind, or all of them; returns how many were cancelled. */
+  cancelAll(kind?: TimerKind): number {
+    const remaining = kind ? this.timers.filter(timer => timer.kind !== kind) : [];
+    const cancelled = this.timers.length - remaining.length;
+    this.set(remaining);
+    return cancelled;
+  }
+
+  /** Short name for lists and buttons: "10 minute timer", "reminder to call mum". */
+  getLabel(timer: Timer): string {
+    switch (timer.kind) {
+      case 'timer':
+        // "10 minute timer": only the unit words lose their plural
+        return `${formatDuration(timer.duration ?? timer.dueAt - timer.createdAt).replace(/\b(hour|minute|second)s\b/g, '$1')} timer`;
+      case 'alarm':
+        return `alarm for ${this.locale.formatTime(new Date(timer.dueAt))}`;
+      case 'reminder':
+        return `reminder to ${timer.message}`;
+    }
+  }
+
+  /** Spoken status: "10 minute timer, 4 minutes left". */
+  describe(timer: Timer, now = Date.now()): string {
+    switch (timer.kind) {
+      case 'timer':
+        return `${this.getLabel(timer)}, ${formatDuration(timer.dueAt - now)} left`;
+      case 'alarm':
+        return this.getLabel(timer);
+      case 'reminder':
+        return `${this.getLabel(timer)} at ${this.locale.formatTime(new Date(timer.dueAt))}`;
+    }
+  }
+
+  subscribe(listener: TimerListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private set(timers: Timer[]): void {
+    this.timers = [...timers].sort((a, b) => a.dueAt - b.dueAt);
+    this.persist();
+    this.schedule();
+    this.listeners.forEach(listener => listener(this.timers));
+  }
+
+  private schedule(): void {
+    if (this.timeout) {
+      clearTimeout(this.timeout);
+      this.timeout = null;
+    }
+    if (!this.alertHandler || this.timers.length === 0) {
+      return;
+    }
+    const delay = Math.max(this.timers[0].dueAt - Date.now(), 0);
+    this.timeout = setTimeout(this.ring, Math.min(delay, MAX_DELAY_MS));
+  }
+
+  private ring = (): void => {
+    this.timeout = null;
+    const now = Date.now();
+    const due = this.timers.filter(timer => timer.dueAt <= now);
+    // Removed first, so a handler that sets a new timer sees an up-to-date list
+    this.set(this.timers.filter(timer => timer.dueAt > now));
+    if (due.length > 0) {
+      this.audioCues.play('timer');
+    }
+    due.forEach(timer => {
+      const announcement = this.announcementFor(timer, now - timer.dueAt > LATE_AFTER_MS);
+      this.alertHandler?.(announcement, timer);
+      this.showNotification(announcement);
+    });
+  };
+
+  private announcementFor(timer: Timer, late: boolean): string {
+    const time = this.locale.formatTime(new Date(timer.dueAt));
+    switch (timer.kind) {
+      case 'timer':
+        return late
+          ? `Your ${this.getLabel(timer)} finished at ${time}, while BlindAssist was closed.`
+          : `Your ${this.getLabel(timer)} is done.`;
+      case 'alarm':
+        return late
+          ? `You missed your alarm for ${time} while BlindAssist was closed.`
+          : `It is ${time}. This is your alarm.`;
+      case 'reminder':
+        return late
+          ? `Missed reminder from ${time}: ${timer.message}.`
+          : `Reminder: ${timer.message}.`;
+    }
+  }
+
+  // Also reaches users who have switched to another tab or app
+  private showNotification(text: string): void {
+    if (typeof Notification === 'undefined' || Notification.permission !== 'granted') {
+      return;
+    }
+    try {
+      new Notification('BlindAssist', { body: text, tag: 'blindassist-timer' });
+    } catch (error) {
+      // Some mobile browsers only allow notifications from a service worker
+      console.error('Timer notification error:', error);
+    }
+  }
+
+  private requestNotificationPermission(): void {
+    if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+      Notification.requestPermission().catch(error => console.error('Notification permission error:', error));
+    }
+  }
+
+  private load(): Timer[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      const timers = stored ? (JSON.parse(stored) as Timer[]) : [];
+      return timers.sort((a, b) => a.dueAt - b.dueAt);
+    } catch (error) {
+      console.error('Timers load error:', error);
+      return [];
+    }
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.timers));
+    } catch (error) {
+      console.error('Timers save error:', error);
+    }
+  }
+}
+
+export default TimerService;
@@ -0,0 +1,123 @@
+// Unit Converter for BlindAssist - Everyday unit conversions worked out on the device
+// Units are looked up by how they are said ("feet", "km", "degrees Fahrenheit") and named back in full
+
+export type UnitCategory = 'length' | 'mass' | 'volume' | 'area' | 'speed' | 'temperature';
+
+export interface Unit {
+  category: UnitCategory;
+  singular: string;
+  plural: string;
+  // Value of one of this unit in the category's base unit; temperatures convert through Celsius instead
+  factor: number;
+  aliases: string[];
+}
+
+export type ConversionResult =
+  | { ok: true; value: number; from: Unit; to: Unit }
+  | { ok: false; reason: string };
+
+const TEMPERATURE_TO_CELSIUS: Record<string, (value: number) => number> = {
+  celsius: value => value,
+  fahrenheit: value => (value - 32) * 5 / 9,
+  kelvin: value => value - 273.15
+};
+const TEMPERATURE_FROM_CELSIUS: Record<string, (value: number) => number> = {
+  celsius: value => value,
+  fahrenheit: value => value * 9 / 5 + 32,
+  kelvin: value => value + 273.15
+};
+
+const defineUnit = (category: UnitCategory, singular: string, plural: string, factor: number, aliases: string[] = []): Unit =>
+  ({ category, singular, plural, factor, aliases });
+
+// Base units: metre, kilogram, litre, square metre, metre per second
+const UNITS: Unit[] = [
+  defineUnit('length', 'millimeter', 'millimeters', 0.001, ['millimetre', 'millimetres', 'mm']),
+  defineUnit('length', 'centimeter', 'centimeters', 0.01, ['centimetre', 'centimetres', 'cm']),
+  defineUnit('length', 'meter', 'meters', 1, ['metre', 'metres', 'm']),
+  defineUnit('length', 'kilometer', 'kilometers', 1000, ['kilometre', 'kilometres', 'km', 'k']),
+  defineUnit('length', 'inch', 'inches', 0.0254, ['in']),
+  defineUnit('length', 'foot', 'feet', 0.3048, ['ft']),
+  defineUnit('length', 'yard', 'yards', 0.9144, ['yd']),
+  defineUnit('length', 'mile', 'miles', 1609.344, ['mi']),
+  defineUnit('length', 'nautical mile', 'nautical miles', 1852),
+  defineUnit('mass', 'milligram', 'milligrams', 0.000001, ['mg']),
+  defineUnit('mass', 'gram', 'grams', 0.001, ['g', 'grammes']),
+  defineUnit('mass', 'kilogram', 'kilograms', 1, ['kilo', 'kilos', 'kg']),
+  defineUnit('mass', 'metric ton', 'metric tons', 1000, ['tonne', 'tonnes']),
+  defineUnit('mass', 'ounce', 'ounces', 0.028349523125, ['oz']),
+  defineUnit('mass', 'pound', 'pounds', 0.45359237, ['lb', 'lbs']),
+  defineUnit('mass', 'stone', 'stone', 6.35029318, ['stones']),
+  defineUnit('mass', 'ton', 'tons', 907.18474, ['short ton', 'short tons']),
+  defineUnit('volume', 'milliliter', 'milliliters', 0.001, ['millilitre', 'millilitres', 'ml']),
+  defineUnit('volume', 'liter', 'liters', 1, ['litre', 'litres', 'l']),
+  defineUnit('volume', 'teaspoon', 'teaspoons', 0.00492892159375, ['tsp']),
+  defineUnit('volume', 'tablespoon', 'tablespoons', 0.01478676478125, ['tbsp']),
+  defineUnit('volume', 'fluid ounce', 'fluid ounces', 0.0295735295625, ['fl oz']),
+  defineUnit('volume', 'cup', 'cups', 0.2365882365),
+  defineUnit('volume', 'pint', 'pints', 0.473176473),
+  defineUnit('volume', 'quart', 'quarts', 0.946352946),
+  defineUnit('volume', 'gallon', 'gallons', 3.785411784),
+  defineUnit('volume', 'cubic meter', 'cubic meters', 1000, ['cubic metre', 'cubic metres']),
+  defineUnit('area', 'square meter', 'square meters', 1, ['square metre', 'square metres']),
+  defineUnit('area', 'square kilometer', 'square kilometers', 1000000, ['square kilometre', 'square kilometres']),
+  defineUnit('area', 'square foot', 'square feet', 0.09290304),
+  defineUnit('area', 'square mile', 'square miles', 2589988.110336),
+  defineUnit('area', 'acre', 'acres', 4046.8564224),
+  defineUnit('area', 'hectare', 'hectares', 10000),
+  defineUnit('speed', 'meter per second', 'meters per second', 1, ['metres per second']),
+  defineUnit('speed', 'kilometer per hour', 'kilometers per hour', 1 / 3.6, ['kilometres per hour', 'kph', 'km per hour', 'kmh']),
+  defineUnit('speed', 'mile per hour', 'miles per hour', 0.44704, ['mph']),
+  defineUnit('speed', 'knot', 'knots', 0.514444),
+  defineUnit('temperature', 'degree Celsius', 'degrees Celsius', 1, ['celsius', 'centigrade', 'c']),
+  defineUnit('temperature', 'degree Fahrenheit', 'degrees Fahrenheit', 1, ['fahrenheit', 'f']),
+  defineUnit('temperature', 'kelvin', 'kelvin', 1, ['kelvins', 'k'])
+];
+
+function temperatureScale(unit: Unit): string {
+  return unit.singular.replace(/^degree /, '').toLowerCase();
+}
+
+// Every unit a spoken name could mean: "ounce" is a weight or, next to a volume, a fluid ounce
+function findUnits(spoken: string): Unit[] {
+  const name = spoken.toLowerCase().replace(/\b(degrees?|an?|one|of)\b/g, ' ').replace(/\s+/g, ' ').trim();
+  const matches = UNITS.filter(candidate =>
+    [candidate.singular.toLowerCase(), candidate.plural.toLowerCase(), ...candidate.aliases].includes(name));
+  if (name === 'ounce' || name === 'ounces' || name === 'oz') {
+    matches.push(...UNITS.filter(candidate => candidate.singular === 'fluid ounce'));
+  }
+  return matches;
+}
+
+/** Convert an amount between two spoken units of the same kind. */
+export function convertUnits(amount: number, fromName: string, toName: string): ConversionResult {
+  const fromUnits = findUnits(fromName);
+  const toUnits = findUnits(toName);
+  const unknown = fromUnits.length === 0 ? fromName : toUnits.length === 0 ? toName : null;
+  if (unknown !== null) {
+    return { ok: false, reason: `I don't know the unit ${unknown}. I can convert lengths, weights, volumes, areas, speeds and temperatures.` };
+  }
+
+  let pair: [Unit, Unit] | undefined;
+  for (const from of fromUnits) {
+    const to = toUnits.find(candidate => candidate.category === from.category);
+    if (to) {
+      pair = [from, to];
+      break;
+    }
+  }
+  if (!pair) {
+    return { ok: false, reason: `I can't convert ${fromUnits[0].plural} to ${toUnits[0].plural}, because they measure different things.` };
+  }
+
+  const [from, to] = pair;
+  const value = from.category === 'temperature'
+    ? TEMPERATURE_FROM_CELSIUS[temperatureScale(to)](TEMPERATURE_TO_CELSIUS[temperatureScale(from)](amount))
+    : amount * from.factor / to.factor;
+  return { ok: true, value, from, to };
+}
+
+/** "1 liter", "2.5 miles": the unit named in full, singular only for exactly one. */
+export function describeAmount(formatted: string, unit: Unit): string {
+  return `${formatted} ${formatted === '1' ? unit.singular : unit.plural}`;
+}
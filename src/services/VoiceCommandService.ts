@@ -0,0 +1,812 @@
+// Voice Command Service for BlindAssist - Carries out recognized commands from any mode
+// Parses an utterance into an intent and runs it, speaking the result back
+
+import SearchService from './SearchService';
+import SearchSessionService from './SearchSessionService';
+import SpeechOutputService, { SpeechOptions } from './SpeechOutputService';
+import SegmentedReaderService from './SegmentedReaderService';
+import IntentRegistry from './IntentRegistry';
+import { formatSpokenNumber, parsePosition, parseSpokenNumber, resolvePosition, roundForSpeech } from './SpokenNumbers';
+import DialogContextService from './DialogContextService';
+import ResponseReplayService from './ResponseReplayService';
+import AssistModeService, { AssistMode, MODE_ANNOUNCEMENTS, MODE_LABELS, parseModeName } from './AssistModeService';
+import CustomCommandService, { CustomCommand } from './CustomCommandService';
+import KeyboardShortcutService from './KeyboardShortcutService';
+import { RecognitionAlternative } from './RecognitionBackend';
+import TimerService, { TimerKind } from './TimerService';
+import { formatDuration, parseClockTime, parseDay, parseDuration } from './SpokenTimes';
+import LocaleService from './LocaleService';
+import { calculate } from './Calculator';
+import { convertUnits, describeAmount } from './UnitConverter';
+import WeatherService, { WeatherQuestion } from './WeatherService';
+import ConnectivityService from './ConnectivityService';
+import { formatStaleNotice } from './ResponseCacheService';
+import OperationTrackerService, { isAbortError, wait } from './OperationTrackerService';
+
+export type Responder = (text: string, options?: SpeechOptions) => void;
+export type ProcessingListener = (processing: boolean) => void;
+
+// "Cancel the reminder" only looks at reminders
+const TIMER_KINDS: TimerKind[] = ['timer', 'alarm', 'reminder'];
+
+// Checked in order against what was asked, after the place name is taken out
+const WEATHER_QUESTIONS: [RegExp, WeatherQuestion][] = [
+  [/\b(rain|raining|rainy|umbrella|raincoat)\b/, 'rain'],
+  [/\b(snow|snowing|snowy)\b/, 'snow'],
+  [/\b(storm|stormy)\b/, 'storm'],
+  [/\b(sunny|clear|sunscreen)\b/, 'sunny'],
+  [/\bwindy\b/, 'windy'],
+  [/\b(hot|warm)\b/, 'hot'],
+  [/\b(cold|freezing|coat|jacket)\b/, 'cold']
+];
+
+type ReaderIntent = 'readerNext' | 'readerPrevious' | 'readerRestart' | 'readerResume' | 'readerPause';
+
+// Recognitions below this confidence are checked against the alternatives and may need a "yes"
+const CONFIDENCE_THRESHOLD = 0.6;
+
+class VoiceCommandService {
+  private static instance: VoiceCommandService;
+  private searchService = SearchService.getInstance();
+  private searchSession = SearchSessionService.getInstance();
+  private speechOutput = SpeechOutputService.getInstance();
+  private readerService = SegmentedReaderService.getInstance();
+  private intentRegistry = IntentRegistry.getInstance();
+  private dialogContext = DialogContextService.getInstance();
+  private replayService = ResponseReplayService.getInstance();
+  private modeService = AssistModeService.getInstance();
+  private customCommands = CustomCommandService.getInstance();
+  private shortcuts = KeyboardShortcutService.getInstance();
+  private timers = TimerService.getInstance();
+  private locale = LocaleService.getInstance();
+  private weather = WeatherService.getInstance();
+  private connectivity = ConnectivityService.getInstance();
+  private operations = OperationTrackerService.getInstance();
+  private listeners = new Set<ProcessingListener>();
+  private processing = false;
+  // Replaced by the app so responses also reach history and the on-screen display
+  private responder: Responder = (text, options) => {
+    this.speechOutput.speak(text, options);
+  };
+
+  static getInstance(): VoiceCommandService {
+    if (!VoiceCommandService.instance) {
+      VoiceCommandService.instance = new VoiceCommandService();
+    }
+    return VoiceCommandService.instance;
+  }
+
+  setResponder(responder: Responder): void {
+    this.responder = responder;
+  }
+
+  /** Abort every operation in flight, so none of them speaks, and drop any unanswered question. */
+  cancel(): void {
+    this.operations.abortAll();
+    this.dialogContext.takePending();
+  }
+
+  isProcessing(): boolean {
+    return this.processing;
+  }
+
+  subscribe(listener: ProcessingListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Run what the recognizer heard, asking "did you mean" first when it was unsure. */
+  async executeRecognized(alternatives: RecognitionAlternative[]): Promise<void> {
+    const [best] = alternatives;
+    if (!best) {
+      return;
+    }
+    // Chrome reports 0 for many phrases it got right, so 0 is as unknown as no estimate;
+    // then only commands that are hard to take back are checked
+    if (!best.confidence) {
+      const intent = this.intentRegistry.parse(best.transcript);
+      if (intent && this.intentRegistry.getDefinition(intent.name)?.confirm) {
+        this.confirmCommand(best.transcript, intent.utterance);
+        return;
+      }
+      await this.execute(best.transcript);
+      return;
+    }
+    if (best.confidence >= CONFIDENCE_THRESHOLD) {
+      await this.execute(best.transcript);
+      return;
+    }
+
+    // The likeliest alternative that is a command we know
+    const candidate = alternatives
+      .map(alternative => ({ alternative, intent: this.intentRegistry.parse(alternative.transcript) }))
+      .find(({ intent }) => intent !== null);
+    if (!candidate?.intent) {
+      this.respond('I am not sure I heard that correctly. Please say it again.');
+      return;
+    }
+
+    const { alternative, intent } = candidate;
+    if (this.intentRegistry.getDefinition(intent.name)?.confirm) {
+      this.confirmCommand(alternative.transcript, intent.utterance);
+      return;
+    }
+    await this.execute(alternative.transcript);
+  }
+
+  async execute(command: string): Promise<void> {
+    const intent = this.intentRegistry.parse(command);
+    const operation = this.operations.start(intent?.name ?? 'command');
+    const { signal } = operation;
+    this.setProcessing(true);
+
+    // Anything other than yes or no abandons an unanswered "did you mean"
+    const { pending } = this.dialogContext.getState();
+    if (pending?.kind === 'confirmCommand' && intent?.name !== 'affirm' && intent?.name !== 'deny') {
+      this.dialogContext.takePending();
+    }
+
+    try {
+      if (!intent) {
+        // Default processing
+        this.respond(`I heard: ${command}. Let me help you with that.`);
+        return;
+      }
+
+      switch (intent.name) {
+        case 'wake':
+          if (intent.slots.command) {
+            await this.execute(intent.slots.command);
+          } else {
+            this.respond('BlindAssist activated. I am listening for your command.');
+          }
+          break;
+        case 'date':
+          this.respond(`Today is ${this.searchService.getCurrentDate()}.`);
+          break;
+        case 'time':
+          this.respond(`The current time is ${this.searchService.getCurrentTime()} on ${this.searchService.getCurrentDate()}.`);
+          break;
+        case 'headlines':
+          await this.handleHeadlinesCommand(signal);
+          break;
+        case 'headlineDetail':
+          await this.handleHeadlineDetailCommand(intent.slots.index, signal);
+          break;
+        case 'googleSearch':
+          await this.handleGoogleSearchCommand(intent.slots.query);
+          break;
+        case 'search':
+          await this.handleSearchCommand(intent.slots.query);
+          break;
+        case 'weather':
+          await this.handleWeatherCommand(intent.slots, signal);
+          break;
+        case 'weatherQuestion':
+          await this.handleWeatherQuestion(intent.slots, intent.utterance, signal);
+          break;
+        case 'stop':
+          // Searches and lookups still running would otherwise answer after the silence
+          this.operations.abortAll();
+          this.speechOutput.stopAll();
+          this.respond('Audio stopped. I am ready for your next command.');
+          break;
+        case 'repeat':
+          this.replayService.repeat();
+          break;
+        case 'repeatSlower':
+          this.replayService.repeat('slower');
+          break;
+        case 'repeatSpelled':
+          this.replayService.repeat('spelled');
+          break;
+        case 'repeatPrevious':
+          this.replayService.previous();
+          break;
+        case 'readPage':
+          await this.handleContentAnalysis('Analyzing the current webpage content...', signal);
+          break;
+        case 'summarizePage':
+          await this.handleContentAnalysis('Summarizing the content...', signal);
+          break;
+        case 'help':
+          this.handleHelpCommand();
+          break;
+        case 'shortcuts':
+          this.respond(this.shortcuts.describe());
+          break;
+        case 'readerNext':
+        case 'readerPrevious':
+        case 'readerRestart':
+        case 'readerResume':
+        case 'readerPause':
+          this.handleReaderCommand(intent.name);
+          break;
+        case 'affirm':
+          await this.handleAffirm();
+          break;
+        case 'deny':
+          this.dialogContext.takePending();
+          this.respond('Okay. What would you like to do next?');
+          break;
+        case 'readItem':
+          this.handleReadItem(intent.slots.index);
+          break;
+        case 'openItem':
+          this.handleOpenItem(intent.slots.index);
+          break;
+        case 'more':
+          this.handleMore();
+          break;
+        case 'searchMore':
+          await this.handleSearchMore();
+          break;
+        case 'switchMode':
+          this.handleSwitchMode(intent.slots.mode);
+          break;
+        case 'webSearch':
+          this.modeService.dispatch({ mode: 'web', type: 'search', query: intent.slots.query });
+          break;
+        case 'describeImage':
+          this.modeService.dispatch({ mode: 'image', type: 'describe' });
+          break;
+        case 'analyzeText':
+          this.modeService.dispatch({ mode: 'text', type: 'analyze' });
+          break;
+        case 'readText':
+          this.modeService.dispatch({ mode: 'text', type: 'readAloud' });
+          break;
+        case 'dictate':
+          this.modeService.dispatch({ mode: 'text', type: 'dictate' });
+          break;
+        case 'setTimer':
+          this.handleSetTimer(intent.slots.duration);
+          break;
+        case 'setAlarm':
+          this.handleSetAlarm(intent.slots.time);
+          break;
+        case 'setReminder':
+          this.handleSetReminder(intent.slots);
+          break;
+        case 'listTimers':
+          this.handleListTimers();
+          break;
+        case 'cancelTimer':
+          this.handleCancelTimer(intent.utterance, intent.slots.index);
+          break;
+        case 'cancelAllTimers':
+          this.handleCancelAllTimers(intent.utterance);
+          break;
+        case 'calculate':
+          this.handleCalculate(intent.slots.expression);
+          break;
+        case 'convertUnits':
+          this.handleConvertUnits(intent.slots);
+          break;
+        case 'macro':
+          await this.runCustomCommand(this.customCommands.findByPhrase(intent.pattern), signal);
+          break;
+      }
+
+    } catch (error) {
+      if (!isAbortError(error)) {
+        this.respond('I encountered an error processing your command. Please try again.');
+      }
+    } finally {
+      operation.finish();
+      this.setProcessing(false);
+    }
+  }
+
+  private confirmCommand(command: string, utterance: string): void {
+    this.dialogContext.ask({ kind: 'confirmCommand', command });
+    this.respond(`Did you mean ${utterance}? Say yes or no.`);
+  }
+
+  private handleSwitchMode(spoken: string): void {
+    const mode = parseModeName(spoken);
+    if (!mode) {
+      this.respond(`I don't know a mode called ${spoken}. You can switch to voice control, web navigation, image description or text analysis.`);
+      return;
+    }
+    if (mode === this.modeService.getMode()) {
+      this.respond(`You are already in ${MODE_LABELS[mode]} mode.`);
+      return;
+    }
+    this.switchTo(mode);
+  }
+
+  private switchTo(mode: AssistMode): void {
+    this.modeService.setMode(mode);
+    this.respond(MODE_ANNOUNCEMENTS[mode], { interrupt: true });
+  }
+
+  /** Run a custom command's actions in order, each finishing before the next starts. */
+  private async runCustomCommand(command: CustomCommand | undefined, signal: AbortSignal): Promise<void> {
+    if (!command) {
+      this.respond('I could not find that custom command. It may have been deleted.');
+      return;
+    }
+
+    for (const step of command.steps) {
+      // Stopping part way through skips the rest
+      signal.throwIfAborted();
+      switch (step.action) {
+        case 'date':
+          this.respond(`Today is ${this.searchService.getCurrentDate()}.`);
+          break;
+        case 'time':
+          this.respond(`The current time is ${this.searchService.getCurrentTime()}.`);
+          break;
+        case 'weather':
+          await this.handleWeatherCommand({}, signal);
+          break;
+        case 'headlines':
+          await this.handleHeadlinesCommand(signal);
+          break;
+        case 'search':
+          await this.handleSearchCommand(step.query);
+          break;
+        case 'switchMode':
+          if (step.mode !== this.modeService.getMode()) {
+            this.switchTo(step.mode);
+          }
+          break;
+      }
+    }
+  }
+
+  private handleReaderCommand(name: ReaderIntent): void {
+    if (!this.readerService.hasContent()) {
+      // "Next" and "go back" walk through the last list of results instead
+      const { focusIndex } = this.dialogContext.getState();
+      if (this.dialogContext.getItemCount() > 0 && (name === 'readerNext' || name === 'readerPrevious')) {
+        const step = name === 'readerNext' ? 1 : -1;
+        this.readItemAt(focusIndex === null ? 0 : focusIndex + step);
+        return;
+      }
+      // With nothing to read, "pause" keeps its old meaning of silencing audio
+      if (name === 'readerPause') {
+        this.speechOutput.stopAll();
+        this.respond('Audio stopped. I am ready for your next command.');
+      } else {
+        this.respond('I am not reading anything right now. Ask for today\'s headlines or read some text first.');
+      }
+      return;
+    }
+
+    const actions = {
+      readerNext: () => this.readerService.next(),
+      readerPrevious: () => this.readerService.previous(),
+      readerRestart: () => this.readerService.restart(),
+      readerResume: () => this.readerService.resume(),
+      readerPause: () => this.readerService.pause()
+    };
+    actions[name]();
+  }
+
+  private async handleAffirm(): Promise<void> {
+    const pending = this.dialogContext.takePending();
+    if (!pending) {
+      this.respond('There is no question waiting for an answer. What would you like to do?');
+      return;
+    }
+
+    switch (pending.kind) {
+      case 'readResult':
+        this.readItemAt(this.dialogContext.getState().focusIndex ?? 0);
+        break;
+      case 'headlineDetail':
+        this.respond('Which headline would you like to hear? Say, for example, "read the second one".');
+        break;
+      case 'searchUpdates':
+        await this.handleSearchCommand(pending.query);
+        break;
+      case 'confirmCommand':
+        await this.execute(pending.command);
+        break;
+    }
+  }
+
+  // Zero-based position in the last list; no value means the item in focus
+  private resolveItemIndex(value?: string): number | null {
+    if (value === undefined) {
+      return this.dialogContext.getState().focusIndex ?? 0;
+    }
+    const position = parsePosition(value);
+    if (!position) {
+      return null;
+    }
+    // Numbers past the end are kept so the reply can say which one is missing
+    if (position.kind === 'index') {
+      return position.index - 1;
+    }
+    return resolvePosition(position, this.dialogContext.getItemCount(), this.dialogContext.getState().focusIndex);
+  }
+
+  private readItemAt(index: number): void {
+    const { topic } = this.dialogContext.getState();
+    if (!topic) {
+      this.respond('I don\'t have any results to choose from yet. Try a search or ask for today\'s headlines first.');
+      return;
+    }
+
+    const label = topic.kind === 'search' ? 'Result' : 'Headline';
+    const count = this.dialogContext.getItemCount();
+    if (index < 0 || index >= count) {
+      this.respond(`${label} ${index + 1} is not available. Please choose a number between 1 and ${count}.`);
+      return;
+    }
+
+    // A detailed answer replaces whatever list was being read aloud
+    this.readerService.pause();
+    this.dialogContext.takePending();
+    this.dialogContext.setFocus(index);
+    if (topic.kind === 'search') {
+      this.respond(this.searchService.formatResultDetailForSpeech(topic.results[index], index));
+    } else {
+      const item = topic.headlines[index];
+      this.respond(this.searchService.formatHeadlineDetailForSpeech(item, index));
+      this.dialogContext.ask({ kind: 'searchUpdates', query: item.headline });
+    }
+  }
+
+  private handleReadItem(value: string): void {
+    const index = this.resolveItemIndex(value);
+    if (index === null) {
+      this.respond('Please tell me which one, for example "read the second one".');
+      return;
+    }
+    this.readItemAt(index);
+  }
+
+  private handleOpenItem(value?: string): void {
+    const index = this.resolveItemIndex(value);
+    const item = index === null ? null : this.dialogContext.getItem(index);
+    if (!item) {
+      this.respond('I am not sure which page to open. Try a search first, then say "open the first one".');
+      return;
+    }
+    this.dialogContext.setFocus(item.index);
+    window.open(item.url, '_blank', 'noopener,noreferrer');
+    this.respond(`Opening ${item.title} in a new tab.`);
+  }
+
+  private handleMore(): void {
+    const { topic, focusIndex } = this.dialogContext.getState();
+    if (!topic) {
+      this.respond('I don\'t have anything more to add yet. Try a search or ask for today\'s headlines.');
+      return;
+    }
+    const nextIndex = focusIndex === null ? 0 : focusIndex + 1;
+    if (nextIndex >= this.dialogContext.getItemCount()) {
+      this.respond('That was the last one. Say "search for more about that" to look further.');
+      return;
+    }
+    this.readItemAt(nextIndex);
+  }
+
+  private async handleSearchMore(): Promise<void> {
+    const { topic, focusIndex } = this.dialogContext.getState();
+    if (!topic) {
+      this.respond('Please search for something first, then ask me to search for more.');
+      return;
+    }
+    const focused = focusIndex === null ? null : this.dialogContext.getItem(focusIndex);
+    if (focused) {
+      await this.handleSearchCommand(focused.title);
+    } else if (topic.kind === 'search') {
+      await this.handleSearchCommand(topic.query);
+    } else {
+      this.respond('Which story should I search for? Say, for example, "read the second one" first.');
+    }
+  }
+
+  private async handleHeadlinesCommand(signal: AbortSignal): Promise<void> {
+    this.respond('Getting today\'s headlines from your news sources...', { priority: 'progress' });
+
+    try {
+      const result = await this.searchService.getTodaysHeadlines(signal);
+      if (result.ok === false) {
+        this.respond(result.reason);
+        return;
+      }
+      this.dialogContext.setHeadlines(result.headlines);
+      this.readerService.load('Today\'s headlines', this.searchService.formatHeadlineSegments(result.headlines, result.unreachable, result.stale), 'item');
+
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      this.respond(this.unlessOffline('I could not retrieve today\'s headlines at this time. Please try again later.'));
+    }
+  }
+
+  private async handleHeadlineDetailCommand(index: string, signal: AbortSignal): Promise<void> {
+    const position = parsePosition(index);
+    if (!position) {
+      this.respond('Please specify which headline number you\'d like to hear more about.');
+      return;
+    }
+    // "The next headline" follows on from the story being discussed, if it was a headline
+    const { topic, focusIndex } = this.dialogContext.getState();
+    const focus = topic?.kind === 'headlines' ? focusIndex : null;
+
+    this.respond(
+      position.kind === 'index' ? `Getting more details about headline ${position.index}...` : 'Getting more details about that headline...',
+      { priority: 'progress' }
+    );
+
+    try {
+      // Stay with the list that was read out: feeds may have moved on since
+      let headlines = topic?.kind === 'headlines' ? topic.headlines : null;
+      if (!headlines) {
+        const result = await this.searchService.getTodaysHeadlines(signal);
+        if (result.ok === false) {
+          this.respond(result.reason);
+          return;
+        }
+        headlines = result.headlines;
+        this.dialogContext.setHeadlines(headlines);
+      }
+      const headlineIndex = position.kind === 'index' ? position.index - 1 : resolvePosition(position, headlines.length, focus);
+      if (headlineIndex === null) {
+        this.respond(`There is no headline there. Please choose a number between 1 and ${headlines.length}.`);
+        return;
+      }
+      this.readItemAt(headlineIndex);
+
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      this.respond('I could not retrieve the headline details. Please try again.');
+    }
+  }
+
+  private async handleGoogleSearchCommand(searchTerm: string): Promise<void> {
+    this.respond(`Searching the web for ${searchTerm}. Gathering current information...`, { priority: 'progress' });
+
+    try {
+      const response = await this.searchSession.search(searchTerm);
+      if (!response) {
+        // A newer search took over and will report instead
+        return;
+      }
+      const speechText = this.searchService.formatSearchForSpeech(response.value, searchTerm, response.stale);
+      this.respond(speechText);
+
+    } catch (error) {
+      this.respond(this.unlessOffline(`I encountered an error searching the web for ${searchTerm}. Please try your search again.`));
+    }
+  }
+
+  private async handleSearchCommand(searchTerm: string): Promise<void> {
+    this.respond(`Searching for ${searchTerm}. Please wait while I gather the latest information.`, { priority: 'progress' });
+
+    try {
+      const response = await this.searchSession.search(searchTerm);
+      if (!response) {
+        return;
+      }
+      const speechText = this.searchService.formatSearchForSpeech(response.value, searchTerm, response.stale);
+      this.respond(speechText);
+
+    } catch (error) {
+      this.respond(this.unlessOffline(`I encountered an error searching for ${searchTerm}. Please try your search again.`));
+    }
+  }
+
+  private async handleWeatherCommand(slots: { location?: string; day?: string }, signal: AbortSignal): Promise<void> {
+    const { location, day } = this.splitWeatherSlots(slots);
+    this.respond(
+      location ? `Getting the weather for ${location}...` : 'Getting current weather information for your location...',
+      { priority: 'progress' }
+    );
+
+    try {
+      const result = await this.weather.getReport(location, signal);
+      if (result.ok === false) {
+        this.respond(result.reason);
+        return;
+      }
+      const days = day ? parseDay(day) : null;
+      const forecast = days
+        ? this.weather.formatDaysForSpeech(result.report, days)
+        : this.weather.formatCurrentForSpeech(result.report);
+      this.respond(result.stale ? `${formatStaleNotice('This weather report is', result.stale)} ${forecast}` : forecast);
+
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      this.respond(this.unlessOffline('I could not retrieve weather information at this time. Please try again later.'));
+    }
+  }
+
+  private async handleWeatherQuestion(slots: { location?: string; day?: string }, utterance: string, signal: AbortSignal): Promise<void> {
+    const { location, day } = this.splitWeatherSlots(slots);
+    const asked = location ? utterance.replace(location, '') : utterance;
+    const question = WEATHER_QUESTIONS.find(([words]) => words.test(asked))?.[1] ?? 'rain';
+    // "Is it raining" is about right now; "will it rain" with no day means today
+    const now = !day && /^is it (raining|snowing|sunny|windy|hot|warm|cold|freezing)\b/.test(asked);
+
+    try {
+      const result = await this.weather.getReport(location, signal);
+      if (result.ok === false) {
+        this.respond(result.reason);
+        return;
+      }
+      const days = now ? null : parseDay(day ?? 'today');
+      const answer = this.weather.answerQuestion(result.report, question, days, day ?? 'today');
+      this.respond(result.stale ? `${formatStaleNotice('This weather report is', result.stale)} ${answer}` : answer);
+
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      this.respond(this.unlessOffline('I could not retrieve weather information at this time. Please try again later.'));
+    }
+  }
+
+  // "The forecast for friday" also reads as asking about a place called Friday
+  private splitWeatherSlots({ location, day }: { location?: string; day?: string }): { location?: string; day?: string } {
+    return location && !day && parseDay(location) ? { day: location } : { location, day };
+  }
+
+  private async handleContentAnalysis(progressMessage: string, signal: AbortSignal): Promise<void> {
+    this.respond(progressMessage, { priority: 'progress' });
+
+    await wait(2000, signal);
+
+    const response = 'I have analyzed the current page content. This appears to be the BlindAssist application interface with four main modes: Voice Control for spoken commands, Web Navigation for browsing assistance, Image Description for visual content analysis, and Text Analysis for document processing. The interface is designed with accessibility in mind, featuring high contrast colors and keyboard navigation support.';
+
+    this.respond(response);
+  }
+
+  private handleSetTimer(spoken: string): void {
+    const duration = parseDuration(spoken);
+    if (duration === null) {
+      this.respond('I did not catch how long. Say, for example, "set a timer for 10 minutes".');
+      return;
+    }
+    this.timers.add({ kind: 'timer', dueAt: Date.now() + duration, duration });
+    this.respond(`Timer set for ${formatDuration(duration)}.`);
+  }
+
+  private handleSetAlarm(spoken: string): void {
+    const time = parseClockTime(spoken);
+    if (!time) {
+      this.respond('I did not catch the time. Say, for example, "set an alarm for 7 am".');
+      return;
+    }
+    this.timers.add({ kind: 'alarm', dueAt: time.getTime() });
+    this.respond(`Alarm set for ${this.describeDueTime(time)}.`);
+  }
+
+  private handleSetReminder({ message, delay, time }: { message: string; delay?: string; time?: string }): void {
+    const duration = delay ? parseDuration(delay) : null;
+    const dueAt = duration !== null ? new Date(Date.now() + duration) : time ? parseClockTime(time) : null;
+    if (!dueAt) {
+      this.respond('I did not catch when. Say, for example, "remind me at 3 pm to take my medication".');
+      return;
+    }
+    this.timers.add({ kind: 'reminder', dueAt: dueAt.getTime(), message });
+    this.respond(duration !== null
+      ? `I will remind you to ${message} in ${formatDuration(duration)}.`
+      : `I will remind you to ${message} at ${this.describeDueTime(dueAt)}.`);
+  }
+
+  // "7:00 AM tomorrow" when the time has already passed today
+  private describeDueTime(time: Date): string {
+    const tomorrow = time.toDateString() !== new Date().toDateString();
+    return `${this.locale.formatTime(time)}${tomorrow ? ' tomorrow' : ''}`;
+  }
+
+  private handleListTimers(): void {
+    const timers = this.timers.getTimers();
+    if (timers.length === 0) {
+      this.respond('You have no timers, alarms or reminders set.');
+      return;
+    }
+    const descriptions = timers.map((timer, index) => `${index + 1}: ${this.timers.describe(timer)}.`);
+    this.respond(`You have ${timers.length === 1 ? 'one' : timers.length} set. ${descriptions.join(' ')}`);
+  }
+
+  private handleCancelTimer(utterance: string, index?: string): void {
+    const kind = TIMER_KINDS.find(candidate => utterance.includes(candidate));
+    const timers = this.timers.getTimers().filter(timer => !kind || timer.kind === kind);
+    if (timers.length === 0) {
+      this.respond(`You have no ${kind ?? 'timer'}s set.`);
+      return;
+    }
+
+    let chosen = timers.length === 1 ? 0 : null;
+    if (index !== undefined) {
+      const position = parsePosition(index);
+      chosen = position ? resolvePosition(position, timers.length, null) : null;
+      if (chosen === null) {
+        this.respond(`There is no ${kind ?? 'timer'} there. You have ${timers.length}.`);
+        return;
+      }
+    }
+    if (chosen === null) {
+      const descriptions = timers.map((timer, position) => `${position + 1}: ${this.timers.describe(timer)}.`);
+      this.respond(`You have ${timers.length} ${kind ?? 'timer'}s. ${descriptions.join(' ')} Say, for example, "cancel the first ${kind ?? 'timer'}", or "cancel all ${kind ?? 'timer'}s".`);
+      return;
+    }
+
+    const timer = timers[chosen];
+    this.timers.cancel(timer.id);
+    this.respond(`Cancelled your ${this.timers.getLabel(timer)}.`);
+  }
+
+  private handleCancelAllTimers(utterance: string): void {
+    const kind = TIMER_KINDS.find(candidate => utterance.includes(candidate));
+    const cancelled = this.timers.cancelAll(kind);
+    this.respond(cancelled === 0
+      ? `You have no ${kind ?? 'timer'}s set.`
+      : `Cancelled ${cancelled} ${kind ?? 'timer'}${cancelled === 1 ? '' : 's'}.`);
+  }
+
+  private handleCalculate(expression: string): void {
+    const result = calculate(expression);
+    if (result.ok === false) {
+      this.respond(result.reason);
+      return;
+    }
+    this.respond(`${expression} is ${this.speakNumber(result.value)}.`);
+  }
+
+  private handleConvertUnits({ amount, from, to }: { amount?: string; from: string; to: string }): void {
+    const value = amount === undefined ? 1 : parseSpokenNumber(amount);
+    if (value === null) {
+      this.respond('I did not catch the amount. Say, for example, "convert 5 miles to kilometers".');
+      return;
+    }
+    const result = convertUnits(value, from, to);
+    if (result.ok === false) {
+      this.respond(result.reason);
+      return;
+    }
+    const locale = this.locale.getReplyLanguage();
+    const converted = roundForSpeech(result.value);
+    const amountText = describeAmount(formatSpokenNumber(value, locale), result.from);
+    const resultText = describeAmount(formatSpokenNumber(converted, locale), result.to);
+    this.respond(`${amountText} is ${converted === result.value ? '' : 'about '}${resultText}.`);
+  }
+
+  // "about 33.33" when rounding changed the value
+  private speakNumber(value: number): string {
+    const rounded = roundForSpeech(value);
+    return `${rounded === value ? '' : 'about '}${formatSpokenNumber(value, this.locale.getReplyLanguage())}`;
+  }
+
+  private handleHelpCommand(): void {
+    const helpMessage = `BlindAssist Enhanced Command Guide: You can say "What's today's date" for current date and time. Ask "What are today's headlines" or "What's happening" for the latest stories from your news sources. Say "Tell me more about headline" followed by a number for detailed news. Say "Search for" followed by any topic to search the web. Say "What's the weather" for weather updates, or ask "Weather in Hyderabad", "What's the forecast for this weekend" or "Will it rain tomorrow". Use "Read this page" to analyze content. While I am reading, say "Next", "Go back", "Pause", "Resume" or "Start over" to move around. After a search or the headlines, say "Read the second one", "Open it", "Tell me more" or simply "Yes" to follow up. Say "Repeat", "Repeat that slower", "Spell that" or "What did you say before that" to hear an earlier answer again. From any mode, say "Switch to image mode", "Describe the image", "Analyze this text" or "Open web search for" followed by a topic. Say "Set a timer for 10 minutes", "Remind me at 3 pm to take my medication" or "Set an alarm for 7 am", then "What timers are running" or "Cancel the timer". Ask "What is 15 percent of 240" or "Convert 72 Fahrenheit to Celsius" for quick sums and conversions. Say "Start dictation" to write text by voice; say "comma", "period" or "new paragraph" for punctuation, "delete last word" or "undo" to correct, and "stop dictation" when you are done. Say "Stop" to halt audio, or say "Keyboard shortcuts" to hear the keys you can use. I search the web with the search service chosen in Settings, read headlines from the news feeds you choose there, and help you navigate information accessibly.`;
+    const phrases = this.customCommands.getCommands().map(command => `"${command.phrase}"`);
+    this.respond(phrases.length > 0
+      ? `${helpMessage} Your own commands are: ${phrases.join(', ')}.`
+      : helpMessage);
+  }
+
+  // Offline with nothing saved, trying again straight away will not help
+  private unlessOffline(message: string): string {
+    return this.connectivity.isOnline()
+      ? message
+      : 'You are offline, and I have nothing saved to answer that with. Please try again once you are connected.';
+  }
+
+  private respond(text: string, options?: SpeechOptions): void {
+    this.responder(text, options);
+  }
+
+  private setProcessing(processing: boolean): void {
+    this.processing = processing;
+    this.listeners.forEach(listener => listener(processing));
+  }
+}
+
+export default VoiceCommandService;
@@ -0,0 +1,177 @@
+// Wake Word Service for BlindAssist - Gates continuous listening behind a wake phrase
+// Background conversation is ignored until the user addresses the assistant
+
+import PreferencesService from './PreferencesService';
+import AudioCueService from './AudioCueService';
+
+export type WakeWordStatus = 'disabled' | 'waiting' | 'armed';
+
+export interface GateResult {
+  // Whether the utterance should be executed as a command
+  accepted: boolean;
+  command?: string;
+}
+
+export type WakeWordListener = (status: WakeWordStatus) => void;
+
+// How long a bare wake phrase keeps the gate open for the command that follows
+const ARMED_TIMEOUT_MS = 8000;
+
+function toWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}'\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 0);
+}
+
+/**
+ * Find the wake phrase in an utterance, ignoring how the recognizer split it into
+ * words ("blindassist" and "blind assist" both match). Returns the words after it.
+ */
+export function findWakePhrase(utterance: string, phrase: string): { remainder: string } | null {
+  const target = toWords(phrase).join('');
+  const words = toWords(utterance);
+  if (!target) {
+    return null;
+  }
+
+  for (let start = 0; start < words.length; start++) {
+    let joined = '';
+    for (let end = start; end < words.length && joined.length < target.length; end++) {
+      joined += words[end];
+      if (joined === target) {
+        return { remainder: words.slice(end + 1).join(' ') };
+      }
+    }
+  }
+  return null;
+}
+
+class WakeWordService {
+  private static instance: WakeWordService;
+  private armed = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<WakeWordListener>();
+  private preferences = PreferencesService.getInstance();
+
+  private constructor() {
+    // Turning the gate off in settings must not leave a stale armed window behind
+    this.preferences.subscribe(() => {
+      if (!this.preferences.get().wakeWord.enabled && this.armed) {
+        this.disarm(false);
+      } else {
+        this.notify();
+      }
+    });
+  }
+
+  static getInstance(): WakeWordService {
+    if (!WakeWordService.instance) {
+      WakeWordService.instance = new WakeWordService();
+    }
+    return WakeWordService.instance;
+  }
+
+  getStatus(): WakeWordStatus {
+    if (!this.preferences.get().wakeWord.enabled) {
+      return 'disabled';
+    }
+    return this.armed ? 'armed' : 'waiting';
+  }
+
+  getPhrase(): string {
+    return this.preferences.get().wakeWord.phrase;
+  }
+
+  /** Decide whether a final transcript should run as a command. */
+  process(utterance: string): GateResult {
+    const { enabled, phrase, followUpSeconds } = this.preferences.get().wakeWord;
+    if (!enabled) {
+      return { accepted: true, command: utterance };
+    }
+
+    const wake = findWakePhrase(utterance, phrase);
+    if (wake) {
+      if (!wake.remainder) {
+        // Bare wake phrase: open the gate for the next utterance
+        this.arm(followUpSeconds > 0 ? followUpSeconds * 1000 : ARMED_TIMEOUT_MS);
+        return { accepted: false };
+      }
+      this.afterCommand(followUpSeconds);
+      return { accepted: true, command: wake.remainder };
+    }
+
+    if (this.armed) {
+      this.afterCommand(followUpSeconds);
+      return { accepted: true, command: utterance };
+    }
+
+    return { accepted: false };
+  }
+
+  /** The utterance without the wake phrase, for recognizer alternatives the gate did not see. */
+  stripPhrase(utterance: string): string {
+    if (this.getStatus() === 'disabled') {
+      return utterance;
+    }
+    const wake = findWakePhrase(utterance, this.getPhrase());
+    return wake ? wake.remainder : utterance;
+  }
+
+  /** Close the gate immediately, e.g. when listening stops. */
+  reset(): void {
+    if (this.armed) {
+      this.disarm(false);
+    }
+  }
+
+  subscribe(listener: WakeWordListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private afterCommand(followUpSeconds: number): void {
+    if (followUpSeconds > 0) {
+      this.arm(followUpSeconds * 1000);
+    } else if (this.armed) {
+      this.disarm(true);
+    }
+  }
+
+  private arm(durationMs: number): void {
+    const wasArmed = this.armed;
+    this.armed = true;
+    this.clearTimer();
+    this.timer = setTimeout(() => this.disarm(true), durationMs);
+    if (!wasArmed) {
+      AudioCueService.getInstance().play('arm');
+      this.notify();
+    }
+  }
+
+  private disarm(withCue: boolean): void {
+    this.armed = false;
+    this.clearTimer();
+    if (withCue) {
+      AudioCueService.getInstance().play('disarm');
+    }
+    this.notify();
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private notify(): void {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+}
+
+export default WakeWordService;
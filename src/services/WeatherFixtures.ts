@@ -0,0 +1,179 @@
+// Weather Fixtures for BlindAssist - Sample forecasts answered by the local weather provider
+// A week of typical weather per city; day one is always today
+
+import type { WeatherCondition } from './WeatherProvider';
+
+export interface FixtureDay {
+  condition: WeatherCondition;
+  high: number;
+  low: number;
+  precipitationChance: number;
+  precipitation: number;
+  maxWindSpeed: number;
+}
+
+export interface WeatherFixture {
+  name: string;
+  // Other ways the city is said, lowercase
+  aliases: string[];
+  latitude: number;
+  longitude: number;
+  humidity: number;
+  week: FixtureDay[];
+}
+
+const day = (
+  condition: WeatherCondition,
+  high: number,
+  low: number,
+  precipitationChance = 0,
+  precipitation = 0,
+  maxWindSpeed = 12
+): FixtureDay => ({ condition, high, low, precipitationChance, precipitation, maxWindSpeed });
+
+export const WEATHER_FIXTURES: WeatherFixture[] = [
+  {
+    name: 'Hyderabad, Telangana, India',
+    aliases: ['hyderabad'],
+    latitude: 17.385,
+    longitude: 78.4867,
+    humidity: 68,
+    week: [
+      day('partlyCloudy', 31, 22, 20, 0.4),
+      day('thunderstorm', 29, 22, 80, 14, 28),
+      day('showers', 28, 21, 60, 6),
+      day('partlyCloudy', 30, 21, 20),
+      day('clear', 31, 20),
+      day('clear', 32, 21),
+      day('partlyCloudy', 31, 21, 10)
+    ]
+  },
+  {
+    name: 'New Delhi, Delhi, India',
+    aliases: ['delhi', 'new delhi'],
+    latitude: 28.6139,
+    longitude: 77.209,
+    humidity: 45,
+    week: [
+      day('clear', 33, 19),
+      day('clear', 33, 19),
+      day('partlyCloudy', 32, 18),
+      day('fog', 29, 17, 0, 0, 6),
+      day('clear', 31, 17),
+      day('clear', 32, 18),
+      day('partlyCloudy', 31, 18)
+    ]
+  },
+  {
+    name: 'London, England, United Kingdom',
+    aliases: ['london'],
+    latitude: 51.5074,
+    longitude: -0.1278,
+    humidity: 82,
+    week: [
+      day('drizzle', 14, 9, 60, 1.5, 24),
+      day('rain', 13, 8, 85, 9, 38),
+      day('cloudy', 13, 7, 30, 0.3),
+      day('partlyCloudy', 15, 8, 10),
+      day('showers', 14, 9, 55, 3, 30),
+      day('cloudy', 12, 6, 20),
+      day('clear', 13, 5)
+    ]
+  },
+  {
+    name: 'Paris, Île-de-France, France',
+    aliases: ['paris'],
+    latitude: 48.8566,
+    longitude: 2.3522,
+    humidity: 76,
+    week: [
+      day('cloudy', 15, 9, 25, 0.2),
+      day('showers', 14, 8, 65, 4, 26),
+      day('partlyCloudy', 16, 8, 10),
+      day('clear', 17, 7),
+      day('partlyCloudy', 16, 9, 15),
+      day('rain', 13, 9, 80, 7, 32),
+      day('cloudy', 13, 7, 30, 0.5)
+    ]
+  },
+  {
+    name: 'Madrid, Community of Madrid, Spain',
+    aliases: ['madrid'],
+    latitude: 40.4168,
+    longitude: -3.7038,
+    humidity: 48,
+    week: [
+      day('clear', 22, 10),
+      day('clear', 23, 11),
+      day('partlyCloudy', 21, 11, 10),
+      day('showers', 18, 10, 50, 3, 25),
+      day('partlyCloudy', 19, 9, 20),
+      day('clear', 21, 9),
+      day('clear', 22, 10)
+    ]
+  },
+  {
+    name: 'New York, New York, United States',
+    aliases: ['new york', 'new york city', 'nyc', 'manhattan'],
+    latitude: 40.7128,
+    longitude: -74.006,
+    humidity: 62,
+    week: [
+      day('clear', 17, 9, 0, 0, 18),
+      day('partlyCloudy', 18, 11, 10),
+      day('rain', 15, 11, 90, 18, 35),
+      day('cloudy', 14, 8, 30, 0.6, 28),
+      day('clear', 13, 5, 0, 0, 22),
+      day('clear', 15, 6),
+      day('partlyCloudy', 16, 8, 15)
+    ]
+  },
+  {
+    name: 'Chicago, Illinois, United States',
+    aliases: ['chicago'],
+    latitude: 41.8781,
+    longitude: -87.6298,
+    humidity: 66,
+    week: [
+      day('cloudy', 12, 5, 20, 0, 30),
+      day('showers', 11, 4, 55, 4, 40),
+      day('clear', 9, 1, 0, 0, 34),
+      day('partlyCloudy', 10, 2),
+      day('snow', 3, -2, 70, 6, 36),
+      day('cloudy', 5, -1, 20),
+      day('clear', 8, 0)
+    ]
+  },
+  {
+    name: 'Tokyo, Japan',
+    aliases: ['tokyo'],
+    latitude: 35.6762,
+    longitude: 139.6503,
+    humidity: 70,
+    week: [
+      day('partlyCloudy', 21, 15, 10),
+      day('cloudy', 20, 15, 40, 1),
+      day('rain', 18, 15, 85, 22, 30),
+      day('clear', 22, 14),
+      day('clear', 23, 15),
+      day('partlyCloudy', 22, 16, 20),
+      day('showers', 20, 16, 60, 5)
+    ]
+  },
+  {
+    name: 'Sydney, New South Wales, Australia',
+    aliases: ['sydney'],
+    latitude: -33.8688,
+    longitude: 151.2093,
+    humidity: 64,
+    week: [
+      day('clear', 24, 15, 0, 0, 20),
+      day('partlyCloudy', 23, 16, 10),
+      day('showers', 21, 16, 60, 5, 26),
+      day('clear', 26, 16),
+      day('clear', 29, 18, 0, 0, 30),
+      day('thunderstorm', 25, 17, 75, 16, 42),
+      day('partlyCloudy', 23, 15, 20)
+    ]
+  }
+];
@@ -0,0 +1,87 @@
+// Weather Provider for BlindAssist - What WeatherService needs from a forecast backend
+// Implemented by Open-Meteo compatible servers and by built-in sample forecasts for offline development
+
+import type { WeatherProviderId } from './PreferencesService';
+
+export type WeatherCondition =
+  | 'clear'
+  | 'partlyCloudy'
+  | 'cloudy'
+  | 'fog'
+  | 'drizzle'
+  | 'rain'
+  | 'showers'
+  | 'snow'
+  | 'thunderstorm';
+
+export interface WeatherLocation {
+  // Spoken back to the user, e.g. "Hyderabad, India"
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+// Temperatures are in degrees Celsius, wind in kilometers per hour and precipitation in millimeters
+export interface CurrentWeather {
+  temperature: number;
+  feelsLike: number;
+  condition: WeatherCondition;
+  // Percent
+  humidity: number;
+  windSpeed: number;
+}
+
+export interface HourlyForecast {
+  // ISO date and time, local to the location
+  time: string;
+  temperature: number;
+  condition: WeatherCondition;
+  // Percent
+  precipitationChance: number;
+}
+
+export interface DailyForecast {
+  // ISO date, local to the location
+  date: string;
+  condition: WeatherCondition;
+  high: number;
+  low: number;
+  // Percent
+  precipitationChance: number;
+  precipitation: number;
+  maxWindSpeed: number;
+}
+
+export interface WeatherReport {
+  location: WeatherLocation;
+  current: CurrentWeather;
+  // From the current hour onwards
+  hourly: HourlyForecast[];
+  // From today onwards
+  daily: DailyForecast[];
+}
+
+export interface WeatherRequest {
+  locale: string;
+  signal?: AbortSignal;
+}
+
+export interface WeatherProvider {
+  readonly id: WeatherProviderId;
+  /** Places matching a spoken name, best match first; empty when none is known. */
+  findLocation(name: string, request: WeatherRequest): Promise<WeatherLocation[]>;
+  forecast(location: WeatherLocation, request: WeatherRequest): Promise<WeatherReport>;
+}
+
+// WMO weather interpretation codes, as used by Open-Meteo
+export function conditionFromCode(code: number): WeatherCondition {
+  if (code === 0) return 'clear';
+  if (code <= 2) return 'partlyCloudy';
+  if (code === 45 || code === 48) return 'fog';
+  if (code >= 51 && code <= 57) return 'drizzle';
+  if (code >= 61 && code <= 67) return 'rain';
+  if ((code >= 71 && code <= 77) || code === 85 || code === 86) return 'snow';
+  if (code >= 80 && code <= 82) return 'showers';
+  if (code >= 95) return 'thunderstorm';
+  return 'cloudy';
+}
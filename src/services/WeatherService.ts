@@ -0,0 +1,294 @@
+// Weather Service for BlindAssist - Forecasts for where you are or any place you name
+// Finds the place, asks the provider chosen in settings and words the answer for speech
+
+import LocaleService from './LocaleService';
+import PreferencesService from './PreferencesService';
+import type { SpokenDay } from './SpokenTimes';
+import type { DailyForecast, WeatherCondition, WeatherLocation, WeatherProvider, WeatherReport } from './WeatherProvider';
+import OpenMeteoWeatherProvider from './OpenMeteoWeatherProvider';
+import LocalWeatherProvider from './LocalWeatherProvider';
+import ResponseCacheService, { Staleness } from './ResponseCacheService';
+
+export type WeatherQuestion = 'rain' | 'snow' | 'storm' | 'sunny' | 'windy' | 'hot' | 'cold';
+
+export type WeatherResult =
+  // `stale` is set when a saved report stood in for a new one
+  | { ok: true; report: WeatherReport; stale: Staleness | null }
+  | { ok: false; reason: string };
+
+const CONDITION_WORDS: Record<WeatherCondition, string> = {
+  clear: 'clear',
+  partlyCloudy: 'partly cloudy',
+  cloudy: 'cloudy',
+  fog: 'foggy',
+  drizzle: 'drizzly',
+  rain: 'rainy',
+  showers: 'showery',
+  snow: 'snowy',
+  thunderstorm: 'stormy'
+};
+
+const WET: WeatherCondition[] = ['drizzle', 'rain', 'showers', 'thunderstorm'];
+const BRIGHT: WeatherCondition[] = ['clear', 'partlyCloudy'];
+
+// Chances of rain at or above this are "likely"; below the lower one are not worth mentioning
+const LIKELY_CHANCE = 50;
+const POSSIBLE_CHANCE = 20;
+const WINDY_KMH = 30;
+const HOT_CELSIUS = 28;
+const COLD_CELSIUS = 5;
+
+// A device position is reused for this long before asking the browser again
+const POSITION_MAX_AGE_MS = 10 * 60 * 1000;
+const POSITION_TIMEOUT_MS = 10000;
+
+// Names meaning "where I am" rather than a place
+const HERE = /^(here|around here|my (location|area|city)|where i am|outside|near me)$/;
+
+class WeatherService {
+  private static instance: WeatherService;
+  private preferences = PreferencesService.getInstance();
+  private locale = LocaleService.getInstance();
+  private openMeteo = new OpenMeteoWeatherProvider();
+  private local = new LocalWeatherProvider();
+  private cache = ResponseCacheService.getInstance();
+
+  static getInstance(): WeatherService {
+    if (!WeatherService.instance) {
+      WeatherService.instance = new WeatherService();
+    }
+    return WeatherService.instance;
+  }
+
+  /**
+   * Forecast for a spoken place name, or for the device's position when none is
+   * given, reused for a while once fetched. Places that cannot be found and
+   * refused location access are reasons, not errors; network failures with
+   * nothing saved reject.
+   */
+  async getReport(place?: string, signal?: AbortSignal): Promise<WeatherResult> {
+    const provider = this.selectProvider();
+    const request = { locale: this.locale.getLocale(), signal };
+    if (place && !HERE.test(place.toLowerCase())) {
+      // Finding the place needs the network too, so the answer is saved under the name
+      const key = [provider.id, request.locale, place.toLowerCase()].join(':');
+      const { value, stale } = await this.cache.fetch('weather', key, async (): Promise<WeatherResult> => {
+        const [found] = await provider.findLocation(place, request);
+        if (!found) {
+          return { ok: false, reason: `I could not find a place called ${place}. Try the name of a nearby city.` };
+        }
+        return { ok: true, report: await provider.forecast(found, request), stale: null };
+      }, { shouldStore: result => result.ok, signal });
+      return value.ok ? { ...value, stale } : value;
+    }
+
+    const position = await this.locate();
+    signal?.throwIfAborted();
+    if (position.ok === false) {
+      return position;
+    }
+    // Positions within about ten kilometers share an answer
+    const { latitude, longitude } = position.location;
+    const key = [provider.id, request.locale, latitude.toFixed(1), longitude.toFixed(1)].join(':');
+    const { value, stale } = await this.cache.fetch('weather', key, () => provider.forecast(position.location, request), { signal });
+    return { ok: true, report: value, stale };
+  }
+
+  /** Current conditions, the rest of today and a look at tomorrow. */
+  formatCurrentForSpeech(report: WeatherReport): string {
+    const { current, daily, hourly } = report;
+    let text = `Right now ${this.placeOf(report)} it is ${this.temperature(current.temperature)} and ${CONDITION_WORDS[current.condition]}`;
+    if (Math.round(current.feelsLike) !== Math.round(current.temperature)) {
+      text += `, feeling like ${this.temperature(current.feelsLike)}`;
+    }
+    text += `. Humidity is ${Math.round(current.humidity)} percent with winds at ${this.windSpeed(current.windSpeed)}. `;
+
+    // Rain expected within the day is worth a warning of its own
+    const wetHour = WET.includes(current.condition)
+      ? undefined
+      : hourly.slice(1, 12).find(hour => hour.precipitationChance >= LIKELY_CHANCE || WET.includes(hour.condition));
+    if (wetHour) {
+      text += `Rain is likely from around ${this.locale.formatTime(new Date(wetHour.time))}. `;
+    }
+    if (daily[0]) {
+      text += `Today: ${this.describeDay(daily[0])}. `;
+    }
+    if (daily[1]) {
+      text += `Tomorrow: ${this.describeDay(daily[1])}.`;
+    }
+    return text.trim();
+  }
+
+  /** The forecast for each day a spoken phrase covers, such as "tomorrow" or "this weekend". */
+  formatDaysForSpeech(report: WeatherReport, day: SpokenDay): string {
+    const days = report.daily.slice(day.offset, day.offset + day.days);
+    if (days.length === 0) {
+      return `I only have a forecast for the next ${report.daily.length} days ${this.placeOf(report)}.`;
+    }
+    const parts = days.map((forecast, index) => `${this.dayName(day.offset + index, forecast)}: ${this.describeDay(forecast)}.`);
+    return `Here is the forecast ${this.placeOf(report)}. ${parts.join(' ')}`;
+  }
+
+  /** A yes or no answer such as "will it rain tomorrow"; without a day, about right now. */
+  answerQuestion(report: WeatherReport, question: WeatherQuestion, day: SpokenDay | null, when: string): string {
+    const place = this.placeOf(report);
+    if (!day) {
+      const { current } = report;
+      const now = {
+        date: '',
+        condition: current.condition,
+        high: current.temperature,
+        low: current.temperature,
+        precipitationChance: WET.includes(current.condition) ? 100 : 0,
+        precipitation: 0,
+        maxWindSpeed: current.windSpeed
+      };
+      const answer = this.matches(question, now) ? 'Yes' : 'No';
+      return `${answer}, right now ${place} it is ${this.temperature(current.temperature)} and ${CONDITION_WORDS[current.condition]}, with winds at ${this.windSpeed(current.windSpeed)}.`;
+    }
+
+    const days = report.daily.slice(day.offset, day.offset + day.days);
+    if (days.length === 0) {
+      return `I only have a forecast for the next ${report.daily.length} days ${place}.`;
+    }
+    const matching = days.filter(forecast => this.matches(question, forecast));
+    if (matching.length === 0) {
+      const possible = question === 'rain'
+        ? days.filter(forecast => forecast.precipitationChance >= POSSIBLE_CHANCE)
+        : [];
+      if (possible.length > 0) {
+        const chance = Math.max(...possible.map(forecast => forecast.precipitationChance));
+        return `Probably not, but the chance of rain ${when} ${place} is up to ${Math.round(chance)} percent.`;
+      }
+      return `No, ${this.negativeAnswer(question)} ${when} ${place}. ${days.length === 1 ? `It looks ${this.describeDay(days[0])}.` : ''}`.trim();
+    }
+    const dayNames = matching.map(forecast => this.dayName(day.offset + days.indexOf(forecast), forecast));
+    const onDays = days.length === 1 ? when : this.joinList(dayNames.map(name => (name === 'today' || name === 'tomorrow' ? name : `on ${name}`)));
+    return `Yes, ${this.positiveAnswer(question, matching)} ${onDays} ${place}. ${days.length === 1 ? `It looks ${this.describeDay(days[0])}.` : ''}`.trim();
+  }
+
+  private matches(question: WeatherQuestion, forecast: DailyForecast): boolean {
+    switch (question) {
+      case 'rain':
+        return WET.includes(forecast.condition) || forecast.precipitationChance >= LIKELY_CHANCE;
+      case 'snow':
+        return forecast.condition === 'snow';
+      case 'storm':
+        return forecast.condition === 'thunderstorm';
+      case 'sunny':
+        return BRIGHT.includes(forecast.condition);
+      case 'windy':
+        return forecast.maxWindSpeed >= WINDY_KMH;
+      case 'hot':
+        return forecast.high >= HOT_CELSIUS;
+      case 'cold':
+        return forecast.low <= COLD_CELSIUS;
+    }
+  }
+
+  private positiveAnswer(question: WeatherQuestion, days: DailyForecast[]): string {
+    switch (question) {
+      case 'rain':
+        return 'rain is likely';
+      case 'snow':
+        return 'snow is expected';
+      case 'storm':
+        return 'thunderstorms are expected';
+      case 'sunny':
+        return 'it should be mostly clear';
+      case 'windy':
+        return `winds could reach ${this.windSpeed(Math.max(...days.map(day => day.maxWindSpeed)))}`;
+      case 'hot':
+        return `it will reach ${this.temperature(Math.max(...days.map(day => day.high)))}`;
+      case 'cold':
+        return `it will drop to ${this.temperature(Math.min(...days.map(day => day.low)))}`;
+    }
+  }
+
+  private negativeAnswer(question: WeatherQuestion): string {
+    switch (question) {
+      case 'rain':
+        return 'rain is not expected';
+      case 'snow':
+        return 'snow is not expected';
+      case 'storm':
+        return 'no storms are expected';
+      case 'sunny':
+        return 'it does not look sunny';
+      case 'windy':
+        return 'it should not be windy';
+      case 'hot':
+        return 'it will not be especially hot';
+      case 'cold':
+        return 'it will not be especially cold';
+    }
+  }
+
+  // "partly cloudy, with a high of 25 degrees and a low of 15 degrees. The chance of rain is 20 percent"
+  private describeDay(forecast: DailyForecast): string {
+    let text = `${CONDITION_WORDS[forecast.condition]}, with a high of ${this.temperature(forecast.high)} and a low of ${this.temperature(forecast.low)}`;
+    if (forecast.precipitationChance >= POSSIBLE_CHANCE) {
+      text += `. The chance of ${forecast.condition === 'snow' ? 'snow' : 'rain'} is ${Math.round(forecast.precipitationChance)} percent`;
+    }
+    return text;
+  }
+
+  private dayName(offset: number, forecast: DailyForecast): string {
+    if (offset === 0) {
+      return 'today';
+    }
+    if (offset === 1) {
+      return 'tomorrow';
+    }
+    const [year, month, date] = forecast.date.split('-').map(Number);
+    return new Date(year, month - 1, date).toLocaleDateString(this.locale.getSpeechLocale(), { weekday: 'long' });
+  }
+
+  private joinList(items: string[]): string {
+    return items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+  }
+
+  private placeOf(report: WeatherReport): string {
+    // The first part of "Hyderabad, Telangana, India" is enough to hear
+    return report.location.name ? `in ${report.location.name.split(',')[0]}` : 'where you are';
+  }
+
+  private usesFahrenheit(): boolean {
+    const { units } = this.preferences.get().weather;
+    return units === 'fahrenheit' || (units === 'auto' && this.locale.getLocale() === 'en-US');
+  }
+
+  private temperature(celsius: number): string {
+    const value = Math.round(this.usesFahrenheit() ? celsius * 9 / 5 + 32 : celsius);
+    return `${value} degree${Math.abs(value) === 1 ? '' : 's'}`;
+  }
+
+  private windSpeed(kmh: number): string {
+    return this.usesFahrenheit() ? `${Math.round(kmh / 1.609344)} miles per hour` : `${Math.round(kmh)} kilometers per hour`;
+  }
+
+  // Read at every request, so a new setting applies to the next one
+  private selectProvider(): WeatherProvider {
+    return this.preferences.get().weather.provider === 'local' ? this.local : this.openMeteo;
+  }
+
+  private locate(): Promise<{ ok: true; location: WeatherLocation } | { ok: false; reason: string }> {
+    if (!('geolocation' in navigator)) {
+      return Promise.resolve({ ok: false, reason: 'This browser cannot tell me where you are. Ask for a place instead, like "weather in London".' });
+    }
+    return new Promise(resolve => {
+      navigator.geolocation.getCurrentPosition(
+        ({ coords }) => resolve({ ok: true, location: { name: '', latitude: coords.latitude, longitude: coords.longitude } }),
+        error => resolve({
+          ok: false,
+          reason: error.code === error.PERMISSION_DENIED
+            ? 'I need permission to use your location for local weather. Allow location access for this site, or ask for a place, like "weather in London".'
+            : 'I could not find your location just now. Ask for a place instead, like "weather in London".'
+        }),
+        { maximumAge: POSITION_MAX_AGE_MS, timeout: POSITION_TIMEOUT_MS }
+      );
+    });
+  }
+}
+
+export default WeatherService;
@@ -0,0 +1,291 @@
+// Whisper Recognition Backend for BlindAssist - Speech to text on the device, no server involved
+// Listens through Web Audio, cuts phrases at pauses and transcribes each one with Whisper
+
+import type { AutomaticSpeechRecognitionPipeline } from '@huggingface/transformers';
+import type { RecognitionBackend, RecognitionCallbacks } from './RecognitionBackend';
+import SpeechOutputService from './SpeechOutputService';
+
+// Multilingual, so every supported language works; downloaded once and cached by the browser
+const MODEL_ID = 'onnx-community/whisper-tiny';
+
+// Whisper only accepts 16 kHz mono audio
+const MODEL_SAMPLE_RATE = 16000;
+const FRAME_SIZE = 4096;
+
+// A phrase ends after this much quiet, or when it gets too long to wait for
+const END_OF_SPEECH_MS = 900;
+const MAX_PHRASE_MS = 15000;
+// Shorter bursts are clicks and coughs rather than words
+const MIN_SPEECH_MS = 250;
+// Frames kept from before the voice started, so the first syllable is not clipped
+const PRE_ROLL_FRAMES = 2;
+// Speech has to be this much louder than the room
+const MIN_LEVEL = 0.015;
+const NOISE_MULTIPLIER = 3;
+
+// pipeline() is typed over every task, which is more than the compiler can resolve
+type LoadTranscriber = (
+  task: 'automatic-speech-recognition',
+  model: string,
+  options: { dtype: 'q8' }
+) => Promise<AutomaticSpeechRecognitionPipeline>;
+
+interface CaptureSession {
+  callbacks: RecognitionCallbacks;
+  stream: MediaStream | null;
+  context: AudioContext | null;
+  // Set while capturing; turns what has been said so far into a final phrase
+  flush: (() => void) | null;
+  // Phrases are transcribed one at a time, in the order they were spoken
+  pending: Promise<void>;
+}
+
+function rms(frame: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) {
+    sum += frame[i] * frame[i];
+  }
+  return Math.sqrt(sum / frame.length);
+}
+
+function concat(frames: Float32Array[]): Float32Array {
+  const samples = new Float32Array(frames.reduce((total, frame) => total + frame.length, 0));
+  let offset = 0;
+  frames.forEach(frame => {
+    samples.set(frame, offset);
+    offset += frame.length;
+  });
+  return samples;
+}
+
+async function resample(samples: Float32Array, sampleRate: number): Promise<Float32Array> {
+  if (sampleRate === MODEL_SAMPLE_RATE) {
+    return samples;
+  }
+  const length = Math.ceil(samples.length * MODEL_SAMPLE_RATE / sampleRate);
+  const offline = new OfflineAudioContext(1, length, MODEL_SAMPLE_RATE);
+  const buffer = offline.createBuffer(1, samples.length, sampleRate);
+  buffer.copyToChannel(samples, 0);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offline.destination);
+  source.start();
+  const rendered = await offline.startRendering();
+  return rendered.getChannelData(0);
+}
+
+// Whisper marks non-speech as "[BLANK_AUDIO]", "(music)" or "*coughs*"
+function cleanTranscript(text: string): string {
+  return text.replace(/\[[^\]]*\]|\([^)]*\)|\*[^*]*\*/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/** Energy-based end-of-speech detection over fixed-size audio frames. */
+class PhraseDetector {
+  private frames: Float32Array[] = [];
+  private preRoll: Float32Array[] = [];
+  private speechMs = 0;
+  private silenceMs = 0;
+  private noiseFloor = MIN_LEVEL / NOISE_MULTIPLIER;
+
+  constructor(private sampleRate: number) {}
+
+  /** Returns a finished phrase, or null while there is none. */
+  push(frame: Float32Array): Float32Array | null {
+    const frameMs = (frame.length / this.sampleRate) * 1000;
+    const level = rms(frame);
+    const voiced = level > Math.max(MIN_LEVEL, this.noiseFloor * NOISE_MULTIPLIER);
+
+    if (this.frames.length === 0) {
+      if (!voiced) {
+        // Follow the background noise, so a noisy room needs a louder voice
+        this.noiseFloor = this.noiseFloor * 0.95 + level * 0.05;
+        this.preRoll = [...this.preRoll, frame].slice(-PRE_ROLL_FRAMES);
+        return null;
+      }
+      this.frames = this.preRoll;
+      this.preRoll = [];
+    }
+
+    this.frames.push(frame);
+    if (voiced) {
+      this.speechMs += frameMs;
+      this.silenceMs = 0;
+    } else {
+      this.silenceMs += frameMs;
+    }
+    if (this.silenceMs < END_OF_SPEECH_MS && this.frames.length * frameMs < MAX_PHRASE_MS) {
+      return null;
+    }
+
+    return this.flush();
+  }
+
+  /** End the current phrase now, e.g. when push-to-talk is released. */
+  flush(): Float32Array | null {
+    const frames = this.frames;
+    const speechMs = this.speechMs;
+    this.reset();
+    return speechMs >= MIN_SPEECH_MS ? concat(frames) : null;
+  }
+
+  reset(): void {
+    this.frames = [];
+    this.preRoll = [];
+    this.speechMs = 0;
+    this.silenceMs = 0;
+  }
+}
+
+class WhisperRecognitionBackend implements RecognitionBackend {
+  readonly engine = 'whisper' as const;
+  private transcriber: Promise<AutomaticSpeechRecognitionPipeline> | null = null;
+  private modelReady = false;
+  private session: CaptureSession | null = null;
+  private speechOutput = SpeechOutputService.getInstance();
+
+  isSupported(): boolean {
+    return Boolean(navigator.mediaDevices?.getUserMedia)
+      && typeof AudioContext !== 'undefined'
+      && typeof WebAssembly !== 'undefined';
+  }
+
+  /** False until the model has been downloaded and loaded once. */
+  isModelReady(): boolean {
+    return this.modelReady;
+  }
+
+  async start(locale: string, callbacks: RecognitionCallbacks): Promise<void> {
+    const session: CaptureSession = {
+      callbacks,
+      stream: null,
+      context: null,
+      flush: null,
+      pending: Promise.resolve()
+    };
+    this.session = session;
+
+    const transcriber = await this.loadModel();
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true }
+    });
+    // Stopped while the model or the microphone was loading
+    if (this.session !== session) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+
+    const context = new AudioContext();
+    const source = context.createMediaStreamSource(stream);
+    // ScriptProcessorNode is deprecated but, unlike an AudioWorklet, needs no separate module file
+    const processor = context.createScriptProcessor(FRAME_SIZE, 1, 1);
+    const detector = new PhraseDetector(context.sampleRate);
+    const language = locale.split('-')[0];
+    const enqueue = (phrase: Float32Array | null) => {
+      if (phrase) {
+        session.pending = session.pending.then(() =>
+          this.transcribe(transcriber, phrase, context.sampleRate, language, session));
+      }
+    };
+
+    processor.onaudioprocess = (event: AudioProcessingEvent) => {
+      if (!session.context) {
+        return;
+      }
+      // The assistant's own voice would otherwise be transcribed as a command
+      if (this.speechOutput.isSpeaking()) {
+        detector.reset();
+        return;
+      }
+      enqueue(detector.push(new Float32Array(event.inputBuffer.getChannelData(0))));
+    };
+
+    // The processor only runs while connected to an output; it writes silence
+    source.connect(processor);
+    processor.connect(context.destination);
+    stream.getAudioTracks()[0]?.addEventListener('ended', () => {
+      if (this.session === session) {
+        this.stop();
+        callbacks.onEnd();
+      }
+    });
+
+    session.stream = stream;
+    session.context = context;
+    session.flush = () => enqueue(detector.flush());
+  }
+
+  finish(): void {
+    const session = this.session;
+    if (!session) {
+      return;
+    }
+    session.flush?.();
+    this.release(session);
+    // Phrases still being transcribed are reported before the end
+    session.pending.then(() => {
+      if (this.session === session) {
+        this.session = null;
+        session.callbacks.onEnd();
+      }
+    });
+  }
+
+  stop(): void {
+    const session = this.session;
+    this.session = null;
+    if (session) {
+      this.release(session);
+    }
+  }
+
+  private release(session: CaptureSession): void {
+    session.stream?.getTracks().forEach(track => track.stop());
+    session.context?.close().catch(error => console.error('Audio context close error:', error));
+    session.stream = null;
+    session.context = null;
+    session.flush = null;
+  }
+
+  private loadModel(): Promise<AutomaticSpeechRecognitionPipeline> {
+    if (!this.transcriber) {
+      // Loaded on first use so the library stays out of the main bundle
+      this.transcriber = import('@huggingface/transformers')
+        .then(({ pipeline }) => (pipeline as LoadTranscriber)('automatic-speech-recognition', MODEL_ID, { dtype: 'q8' }))
+        .then(transcriber => {
+          this.modelReady = true;
+          return transcriber;
+        })
+        .catch(error => {
+          // Allow another attempt, for example once the connection is back
+          this.transcriber = null;
+          throw error;
+        });
+    }
+    return this.transcriber;
+  }
+
+  private async transcribe(
+    transcriber: AutomaticSpeechRecognitionPipeline,
+    phrase: Float32Array,
+    sampleRate: number,
+    language: string,
+    session: CaptureSession
+  ): Promise<void> {
+    try {
+      const audio = await resample(phrase, sampleRate);
+      const output = await transcriber(audio, { language, task: 'transcribe' });
+      const transcript = cleanTranscript((Array.isArray(output) ? output[0] : output).text);
+      if (transcript && this.session === session) {
+        // Whisper gives no confidence score, so none is reported
+        session.callbacks.onResult([{ transcript }]);
+      }
+    } catch (error) {
+      console.error('Whisper transcription error:', error);
+      if (this.session === session) {
+        session.callbacks.onError('transcription-failed');
+      }
+    }
+  }
+}
+
+export default WhisperRecognitionBackend;